@@ -15,6 +15,16 @@ const number = (value: string | undefined, fallback: number) => {
   return Number.isFinite(parsed) ? parsed : fallback
 }
 
+const optionalNumber = (value: string | undefined) => {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+const flag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : ['1', 'true', 'yes'].includes(value.trim().toLowerCase())
+
+const isRoot = typeof process.getuid === 'function' && process.getuid() === 0
+
 const parseCsv = (value: string | undefined, fallback: string[]) =>
   value?.split(',').map((item) => item.trim()).filter(Boolean) ?? fallback
 
@@ -28,9 +38,58 @@ export const env = {
   cors: {
     allowedOrigins: parseCsv(process.env.FRONTEND_ORIGIN, ['http://localhost:3000', 'https://onewise.vercel.app']),
   },
+  // Frontend base URL, used to build join links (e.g. in calendar feeds).
+  appUrl: process.env.APP_URL ?? 'http://localhost:3000',
+  // Externally reachable API base URL; falls back to the request's host when unset.
+  publicApiUrl: process.env.PUBLIC_API_URL,
   socket: {
     allowedOrigins: parseCsv(process.env.SOCKET_CORS_ORIGINS, ['http://localhost:3000', 'https://onewise.vercel.app']),
   },
+  codeRunner: {
+    timeoutMs: number(process.env.CODE_RUNNER_TIMEOUT_MS, 10000),
+    cpuSeconds: number(process.env.CODE_RUNNER_CPU_SECONDS, 5),
+    memoryMb: number(process.env.CODE_RUNNER_MEMORY_MB, 512),
+    maxProcesses: number(process.env.CODE_RUNNER_MAX_PROCESSES, 64),
+    maxOutputBytes: number(process.env.CODE_RUNNER_MAX_OUTPUT_BYTES, 64 * 1024),
+    maxFileBytes: number(process.env.CODE_RUNNER_MAX_FILE_BYTES, 16 * 1024 * 1024),
+    // Runs need a uid of their own (execution is refused otherwise); default to `nobody` when the API runs as root.
+    uid: optionalNumber(process.env.CODE_RUNNER_UID) ?? (isRoot ? 65534 : undefined),
+    gid: optionalNumber(process.env.CODE_RUNNER_GID) ?? (isRoot ? 65534 : undefined),
+    disableNetwork: flag(process.env.CODE_RUNNER_DISABLE_NETWORK, true),
+    path: process.env.CODE_RUNNER_PATH ?? process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+    // Shared, prebuilt Go build cache. Must be readable by the runner uid and outside /tmp, which runs cannot see.
+    goCacheDir: process.env.CODE_RUNNER_GO_CACHE ?? '/var/cache/code-runner/go-build',
+    queue: {
+      concurrency: number(process.env.CODE_RUNNER_CONCURRENCY, 2),
+      maxQueue: number(process.env.CODE_RUNNER_MAX_QUEUE, 50),
+      perUserConcurrency: number(process.env.CODE_RUNNER_USER_CONCURRENCY, 2),
+      sessionRunsPerMinute: number(process.env.CODE_RUNNER_SESSION_RUNS_PER_MINUTE, 30),
+    },
+  },
+  collab: {
+    // Snapshots are written once edits pause for `snapshotDebounceMs`, and at least every `snapshotMaxWaitMs`.
+    snapshotDebounceMs: number(process.env.CODE_SNAPSHOT_DEBOUNCE_MS, 2000),
+    snapshotMaxWaitMs: number(process.env.CODE_SNAPSHOT_MAX_WAIT_MS, 30000),
+    // Documents nobody is connected to are flushed and dropped from memory after this long without use.
+    documentIdleMs: number(process.env.CODE_DOCUMENT_IDLE_MS, 5 * 60 * 1000),
+  },
+  sessions: {
+    // Live sessions complete automatically this long after their planned `duration_minutes`.
+    autoCompleteGraceMinutes: number(process.env.SESSION_AUTO_COMPLETE_GRACE_MINUTES, 15),
+    reminderLeadMinutes: number(process.env.SESSION_REMINDER_LEAD_MINUTES, 15),
+    // Scheduled sessions that never went live are marked missed this long after `scheduled_at`.
+    missedAfterMinutes: number(process.env.SESSION_MISSED_AFTER_MINUTES, 60),
+    // Live sessions are completed once nobody has been connected for this long.
+    abandonedAfterMinutes: number(process.env.SESSION_ABANDONED_AFTER_MINUTES, 10),
+  },
+  inviteLinks: {
+    // HMAC key for signed invite links; issuing and redeeming them is disabled while unset.
+    secret: process.env.INVITE_LINK_SECRET,
+  },
+  scheduler: {
+    enabled: flag(process.env.SCHEDULER_ENABLED, true),
+    intervalMs: number(process.env.SCHEDULER_INTERVAL_MS, 60 * 1000),
+  },
   logLevel: process.env.LOG_LEVEL ?? 'info',
 }
 
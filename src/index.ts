@@ -3,6 +3,7 @@ import cors, { CorsOptions } from 'cors'
 import helmet from 'helmet'
 import morgan from 'morgan'
 import { createServer } from 'http'
+import { randomUUID } from 'crypto'
 import { Server as SocketIOServer } from 'socket.io'
 import { env } from './config/env'
 import { logger } from './logger'
@@ -10,11 +11,60 @@ import { authenticate } from './middleware/authenticate'
 import { errorHandler } from './middleware/errorHandler'
 import profileRoutes from './routes/profile'
 import sessionsRoutes from './routes/sessions'
+import languagesRoutes from './routes/languages'
+import executeRoutes from './routes/execute'
+import calendarRoutes from './routes/calendar'
 import { supabaseAdmin } from './lib/supabase'
+import {
+  emitToUserInSession,
+  registerConnection,
+  setSocketServer,
+  unregisterConnection,
+  userRoom,
+} from './lib/socket'
+import { createScheduler } from './lib/scheduler'
 import type { AuthedUser } from './types'
-import { ensureSessionParticipant, getSessionForUser, addSessionMessage, addCodeSnapshot, updateParticipantPermissions } from './services/session'
-import { executeCode } from './services/codeRunner'
+import { revokedPermissions, updateParticipantPermissions } from './services/session'
+import { startSessionOnMentorJoin } from './services/sessionLifecycle'
+import { registerLifecycleJobs, registerSessionJobs } from './services/sessionJobs'
+import { decideLobbyRequest, type LobbyDecision } from './services/lobby'
+import {
+  addMessageReaction,
+  addSessionMessage,
+  deleteSessionMessage,
+  editSessionMessage,
+  parseEmoji,
+  removeMessageReaction,
+  toChatEvent,
+  toDeletedEvent,
+  toEditedEvent,
+  toReactionEvent,
+} from './services/chat'
+import { authorizeSessionAction } from './services/authorization'
+import { executeCode, MAX_ARG_LENGTH, MAX_ARGS, MAX_STDIN_BYTES } from './services/codeRunner'
+import { warmGoBuildCache } from './services/languages'
+import { recordCodeRun } from './services/codeRuns'
+import { getExecutionQueueStats } from './services/executionQueue'
+import { gradeSubmission } from './services/grading'
+import {
+  applyClientOperation,
+  getDocumentState,
+  persistAllDocuments,
+  persistDocument,
+  releaseDocument,
+  replaceDocument,
+} from './services/collab'
+import {
+  addPresence,
+  listPresence,
+  parseCursor,
+  parseSelection,
+  removePresence,
+  touchPresence,
+} from './services/presence'
 import { HttpError } from './utils/httpError'
+import { parseOperation } from './utils/textOperation'
+import { createKeyedThrottle } from './utils/throttle'
 
 const app = express()
 
@@ -57,18 +107,29 @@ app.get('/health', (_req: Request, res: Response) =>
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
+    execution: getExecutionQueueStats(),
   })
 )
 
+app.use('/api/calendar', calendarRoutes)
+
 app.use(authenticate)
 
 app.use('/api/profile', profileRoutes)
 app.use('/api/sessions', sessionsRoutes)
+app.use('/api/languages', languagesRoutes)
+app.use('/api/execute', executeRoutes)
 
 app.use(errorHandler)
 
 const server = createServer(app)
 
+const scheduler = createScheduler()
+registerSessionJobs(scheduler)
+
+const lifecycleScheduler = createScheduler()
+registerLifecycleJobs(lifecycleScheduler)
+
 type SocketAuthedUser = AuthedUser & { name?: string | null }
 
 type SocketData = {
@@ -76,6 +137,47 @@ type SocketData = {
   sessionId?: string
 }
 
+type ActiveRun = {
+  sessionId: string
+  authorId: string
+  controller: AbortController
+}
+
+const activeRuns = new Map<string, ActiveRun>()
+
+const CURSOR_THROTTLE_MS = 50
+
+// Same limit as `POST /api/sessions/:id/messages`.
+const MAX_MESSAGE_LENGTH = 2000
+
+const cursorThrottle = createKeyedThrottle(CURSOR_THROTTLE_MS)
+
+// Socket errors mirror the REST error bodies so clients can tell a 403 from a validation failure.
+const toSocketError = (err: unknown, fallback: string) =>
+  err instanceof HttpError ? { message: err.message, status: err.status } : { message: fallback, status: 500 }
+
+const parseRunInput = (payload: { stdin?: unknown; args?: unknown }) => {
+  const { stdin, args } = payload
+
+  if (stdin !== undefined && typeof stdin !== 'string') {
+    throw new HttpError(400, 'stdin must be a string')
+  }
+
+  if (stdin && Buffer.byteLength(stdin) > MAX_STDIN_BYTES) {
+    throw new HttpError(400, `stdin must be at most ${MAX_STDIN_BYTES} bytes`)
+  }
+
+  if (args !== undefined && (!Array.isArray(args) || args.some((arg) => typeof arg !== 'string'))) {
+    throw new HttpError(400, 'args must be an array of strings')
+  }
+
+  if (args && (args.length > MAX_ARGS || args.some((arg: string) => arg.length > MAX_ARG_LENGTH))) {
+    throw new HttpError(400, `At most ${MAX_ARGS} arguments of up to ${MAX_ARG_LENGTH} characters are allowed`)
+  }
+
+  return { stdin: stdin as string | undefined, args: args as string[] | undefined }
+}
+
 const io = new SocketIOServer(server, {
   cors: {
     origin(origin, callback) {
@@ -91,6 +193,8 @@ const io = new SocketIOServer(server, {
   },
 })
 
+setSocketServer(io)
+
 io.use(async (socket, next) => {
   try {
     const headerToken = socket.handshake.headers.authorization?.replace('Bearer', '').trim()
@@ -132,8 +236,37 @@ io.on('connection', (socket) => {
 
   logger.info('Socket connected', { userId: user.id, socketId: socket.id })
 
+  void socket.join(userRoom(user.id))
+
+  const displayName = (user.user_metadata?.name as string | undefined) ?? user.email ?? null
+
+  const leaveSession = (reason: string) => {
+    const sessionId = data.sessionId
+    if (!sessionId) return
+
+    const room = `session:${sessionId}`
+    data.sessionId = undefined
+    cursorThrottle.cancel(`${socket.id}:`)
+    socket.leave(room)
+
+    const { left } = removePresence(sessionId, socket.id, user.id)
+    if (left) {
+      io.to(room).emit('presence:left', { sessionId, userId: user.id, reason })
+    }
+
+    // Flush buffered edits whenever someone leaves; the last one out also frees the document.
+    const flush = io.sockets.adapter.rooms.get(room)?.size ? persistDocument(sessionId) : releaseDocument(sessionId)
+    flush.catch((err) =>
+      logger.error('Failed to flush collaborative document', { sessionId, message: (err as Error).message })
+    )
+  }
+
+  registerConnection(user.id, { socket, sessionId: () => data.sessionId, leaveSession })
+
   socket.on('disconnect', (reason) => {
     logger.info('Socket disconnected', { userId: user.id, reason })
+    unregisterConnection(user.id, socket.id)
+    leaveSession('disconnected')
   })
 
   socket.on('session:join', async ({ sessionId }: { sessionId?: string }, callback?: (payload: any) => void) => {
@@ -142,54 +275,232 @@ io.on('connection', (socket) => {
         throw new HttpError(400, 'sessionId is required')
       }
 
-      await ensureSessionParticipant(user.id, sessionId)
+      const access = await authorizeSessionAction(user.id, sessionId, 'view')
+      if (access.session.status === 'cancelled') {
+        throw new HttpError(409, 'This session has been cancelled')
+      }
+
+      // A socket is in one session at a time; joining another one leaves the previous room.
+      if (data.sessionId && data.sessionId !== sessionId) {
+        leaveSession('left')
+      }
 
       const room = `session:${sessionId}`
       await socket.join(room)
       data.sessionId = sessionId
 
-      callback?.({ ok: true })
-      socket.emit('session:joined', { sessionId })
+      const { participant, joined } = addPresence(sessionId, socket.id, {
+        userId: user.id,
+        name: displayName,
+        role: access.participant?.role ?? 'student',
+      })
+      const presence = listPresence(sessionId)
+      const document = await getDocumentState(sessionId)
+
+      callback?.({ ok: true, document, presence })
+      socket.emit('session:joined', { sessionId, document })
+      socket.emit('presence:list', { sessionId, participants: presence })
+      if (joined) {
+        socket.to(room).emit('presence:joined', { sessionId, participant })
+      }
+
+      startSessionOnMentorJoin(sessionId, access.participant?.role).catch((err) =>
+        logger.error('Failed to start session', { sessionId, message: (err as Error).message })
+      )
     } catch (err) {
-      const message = err instanceof HttpError ? err.message : 'Unable to join session'
-      callback?.({ ok: false, message })
-      socket.emit('session:error', { message })
+      const { message, status } = toSocketError(err, 'Unable to join session')
+      callback?.({ ok: false, message, status })
+      socket.emit('session:error', { message, status })
     }
   })
 
-  socket.on('chat:message', async (payload: { id?: string; text?: string; time?: string }, callback?: (res: any) => void) => {
+  socket.on('session:leave', (_payload: unknown, callback?: (res: { ok: boolean }) => void) => {
+    leaveSession('left')
+    callback?.({ ok: true })
+  })
+
+  // Mentors answer `lobby:request` from wherever they are, so the session comes from the payload, not the joined room.
+  const handleLobbyDecision = (event: string, decision: LobbyDecision) =>
+    socket.on(event, async (payload: { sessionId?: string; userId?: string }, callback?: (res: any) => void) => {
+      try {
+        if (!payload?.sessionId || !payload?.userId) {
+          throw new HttpError(400, 'sessionId and userId are required')
+        }
+
+        await authorizeSessionAction(user.id, payload.sessionId, 'moderate')
+        const participant = await decideLobbyRequest(user.id, payload.sessionId, payload.userId, decision)
+
+        callback?.({ ok: true, participant })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to update lobby request')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
+    })
+
+  handleLobbyDecision('lobby:admit', 'admitted')
+  handleLobbyDecision('lobby:deny', 'denied')
+
+  // Cursor and selection updates are high-frequency and purely cosmetic: they are throttled per socket, skip the
+  // database, and are dropped silently once the socket has left the session.
+  const relayPointer = (event: string, build: () => Record<string, unknown>) => {
+    const sessionId = data.sessionId
+    if (!sessionId) return
+
+    try {
+      const body = build()
+      cursorThrottle.run(`${socket.id}:${event}`, () => {
+        if (data.sessionId !== sessionId) return
+        const participant = touchPresence(sessionId, user.id)
+        if (!participant) return
+
+        socket.to(`session:${sessionId}`).emit(event, {
+          sessionId,
+          userId: user.id,
+          connectionId: socket.id,
+          name: participant.name,
+          color: participant.color,
+          ...body,
+        })
+      })
+    } catch (err) {
+      socket.emit('session:error', toSocketError(err, 'Unable to share cursor'))
+    }
+  }
+
+  socket.on('cursor:move', (payload: { position?: unknown }) =>
+    relayPointer('cursor:move', () => ({ position: parseCursor(payload?.position) }))
+  )
+
+  socket.on('selection:change', (payload: { selection?: unknown }) =>
+    relayPointer('selection:change', () => ({ selection: parseSelection(payload?.selection ?? null) }))
+  )
+
+  socket.on(
+    'chat:message',
+    async (payload: { id?: string; text?: string; parentId?: string }, callback?: (res: any) => void) => {
+      try {
+        const sessionId = data.sessionId
+        if (!sessionId) {
+          throw new HttpError(400, 'Join a session before sending messages')
+        }
+
+        if (!payload?.text) {
+          throw new HttpError(400, 'Message text is required')
+        }
+
+        if (payload.text.length > MAX_MESSAGE_LENGTH) {
+          throw new HttpError(400, `Messages must be at most ${MAX_MESSAGE_LENGTH} characters`)
+        }
+
+        await authorizeSessionAction(user.id, sessionId, 'chat')
+
+        const message = await addSessionMessage(sessionId, user.id, payload.text, payload.parentId)
+        message.author.name ??= displayName
+
+        const enriched = toChatEvent(message, payload.id)
+
+        io.to(`session:${sessionId}`).emit('chat:message', enriched)
+        callback?.({ ok: true, id: enriched.id, time: enriched.time })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to send message')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
+    }
+  )
+
+  socket.on('chat:edit', async (payload: { messageId?: string; text?: string }, callback?: (res: any) => void) => {
     try {
       const sessionId = data.sessionId
       if (!sessionId) {
-        throw new HttpError(400, 'Join a session before sending messages')
+        throw new HttpError(400, 'Join a session before editing messages')
+      }
+
+      if (!payload?.messageId || !payload.text) {
+        throw new HttpError(400, 'messageId and text are required')
       }
 
-      if (!payload?.text) {
-        throw new HttpError(400, 'Message text is required')
+      if (payload.text.length > MAX_MESSAGE_LENGTH) {
+        throw new HttpError(400, `Messages must be at most ${MAX_MESSAGE_LENGTH} characters`)
       }
 
-      await addSessionMessage(sessionId, user.id, payload.text)
+      await authorizeSessionAction(user.id, sessionId, 'chat')
+      const message = await editSessionMessage(user.id, sessionId, payload.messageId, payload.text)
+
+      io.to(`session:${sessionId}`).emit('chat:edited', toEditedEvent(message))
+      callback?.({ ok: true })
+    } catch (err) {
+      const { message, status } = toSocketError(err, 'Unable to edit message')
+      callback?.({ ok: false, message, status })
+      socket.emit('session:error', { message, status })
+    }
+  })
+
+  socket.on('chat:delete', async (payload: { messageId?: string }, callback?: (res: any) => void) => {
+    try {
+      const sessionId = data.sessionId
+      if (!sessionId) {
+        throw new HttpError(400, 'Join a session before deleting messages')
+      }
 
-      const enriched = {
-        id: payload.id ?? String(Date.now()),
-        text: payload.text,
-        time: payload.time ?? new Date().toISOString(),
-        author: { id: user.id, name: user.user_metadata?.name ?? user.email },
-        sessionId,
+      if (!payload?.messageId) {
+        throw new HttpError(400, 'messageId is required')
       }
 
-      io.to(`session:${sessionId}`).emit('chat:message', enriched)
+      await authorizeSessionAction(user.id, sessionId, 'view')
+      const message = await deleteSessionMessage(user.id, sessionId, payload.messageId)
+
+      io.to(`session:${sessionId}`).emit('chat:deleted', toDeletedEvent(message))
       callback?.({ ok: true })
     } catch (err) {
-      const message = err instanceof HttpError ? err.message : 'Unable to send message'
-      callback?.({ ok: false, message })
-      socket.emit('session:error', { message })
+      const { message, status } = toSocketError(err, 'Unable to delete message')
+      callback?.({ ok: false, message, status })
+      socket.emit('session:error', { message, status })
     }
   })
 
+  socket.on(
+    'chat:react',
+    async (payload: { messageId?: string; emoji?: string; action?: 'add' | 'remove' }, callback?: (res: any) => void) => {
+      try {
+        const sessionId = data.sessionId
+        if (!sessionId) {
+          throw new HttpError(400, 'Join a session before reacting to messages')
+        }
+
+        if (!payload?.messageId) {
+          throw new HttpError(400, 'messageId is required')
+        }
+
+        const emoji = parseEmoji(payload.emoji)
+        const action = payload.action === 'remove' ? 'remove' : 'add'
+
+        await authorizeSessionAction(user.id, sessionId, 'chat')
+        const reactions =
+          action === 'add'
+            ? await addMessageReaction(user.id, sessionId, payload.messageId, emoji)
+            : await removeMessageReaction(user.id, sessionId, payload.messageId, emoji)
+
+        io.to(`session:${sessionId}`).emit(
+          'chat:reaction',
+          toReactionEvent(sessionId, payload.messageId, user.id, emoji, action, reactions)
+        )
+        callback?.({ ok: true, reactions })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to update reaction')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
+    }
+  )
+
   socket.on(
     'code:update',
-    async (payload: { code?: string; language?: string }, callback?: (res: { ok: boolean; message?: string }) => void) => {
+    async (
+      payload: { code?: string; language?: string },
+      callback?: (res: { ok: boolean; message?: string; status?: number }) => void
+    ) => {
       try {
         const sessionId = data.sessionId
         if (!sessionId) {
@@ -200,11 +511,16 @@ io.on('connection', (socket) => {
           throw new HttpError(400, 'Code content is required')
         }
 
-        await addCodeSnapshot(sessionId, user.id, payload.code, payload.language ?? 'javascript')
+        await authorizeSessionAction(user.id, sessionId, 'edit')
+
+        // Broadcast straight away; the snapshot is written behind (see `code:saved` / `code:save-failed`).
+        // Without a language the document keeps its current one.
+        const state = await replaceDocument(sessionId, user.id, payload.code, payload.language)
 
         io.to(`session:${sessionId}`).emit('code:update', {
           code: payload.code,
-          language: payload.language,
+          language: state.language,
+          revision: state.revision,
           sessionId,
           authorId: user.id,
           updatedAt: new Date().toISOString(),
@@ -212,16 +528,96 @@ io.on('connection', (socket) => {
 
         callback?.({ ok: true })
       } catch (err) {
-        const message = err instanceof HttpError ? err.message : 'Unable to update code'
-        callback?.({ ok: false, message })
-        socket.emit('session:error', { message })
+        const { message, status } = toSocketError(err, 'Unable to update code')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
+    }
+  )
+
+  socket.on('code:sync', async (_payload: unknown, callback?: (res: any) => void) => {
+    try {
+      const sessionId = data.sessionId
+      if (!sessionId) {
+        throw new HttpError(400, 'Join a session before syncing code')
+      }
+
+      await authorizeSessionAction(user.id, sessionId, 'view')
+
+      const document = await getDocumentState(sessionId)
+      callback?.({ ok: true, document })
+    } catch (err) {
+      const { message, status } = toSocketError(err, 'Unable to sync code')
+      callback?.({ ok: false, message, status })
+      socket.emit('session:error', { message, status })
+    }
+  })
+
+  socket.on('code:save', async (_payload: unknown, callback?: (res: any) => void) => {
+    try {
+      const sessionId = data.sessionId
+      if (!sessionId) {
+        throw new HttpError(400, 'Join a session before saving code')
+      }
+
+      await authorizeSessionAction(user.id, sessionId, 'edit')
+
+      if (!(await persistDocument(sessionId))) {
+        throw new HttpError(500, 'Unable to store code snapshot')
+      }
+
+      const document = await getDocumentState(sessionId)
+      callback?.({ ok: true, revision: document.savedRevision })
+    } catch (err) {
+      const { message, status } = toSocketError(err, 'Unable to save code')
+      callback?.({ ok: false, message, status })
+      socket.emit('session:error', { message, status })
+    }
+  })
+
+  socket.on(
+    'code:op',
+    async (
+      payload: { revision?: number; ops?: unknown },
+      callback?: (res: { ok: boolean; message?: string; status?: number; revision?: number; resync?: boolean }) => void
+    ) => {
+      try {
+        const sessionId = data.sessionId
+        if (!sessionId) {
+          throw new HttpError(400, 'Join a session before editing code')
+        }
+
+        if (typeof payload?.revision !== 'number') {
+          throw new HttpError(400, 'revision is required')
+        }
+
+        const op = parseOperation(payload.ops)
+        await authorizeSessionAction(user.id, sessionId, 'edit')
+        const applied = await applyClientOperation(sessionId, user.id, payload.revision, op)
+
+        socket.to(`session:${sessionId}`).emit('code:op', {
+          sessionId,
+          revision: applied.revision,
+          ops: applied.op,
+          authorId: user.id,
+        })
+
+        callback?.({ ok: true, revision: applied.revision })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to apply edit')
+        // 409s mean the client's view diverged; it should fetch a fresh copy via `code:sync`.
+        callback?.({ ok: false, message, status, resync: status === 409 })
+        socket.emit('session:error', { message, status })
       }
     }
   )
 
   socket.on(
     'code:run',
-    async (payload: { code?: string; language?: string }, callback?: (res: { ok: boolean; message?: string }) => void) => {
+    async (
+      payload: { code?: string; language?: string; stdin?: unknown; args?: unknown },
+      callback?: (res: { ok: boolean; message?: string; status?: number; runId?: string }) => void
+    ) => {
       try {
         const sessionId = data.sessionId
         if (!sessionId) {
@@ -232,78 +628,180 @@ io.on('connection', (socket) => {
           throw new HttpError(400, 'Code content is required')
         }
 
+        const { stdin, args } = parseRunInput(payload)
+        await authorizeSessionAction(user.id, sessionId, 'run')
         const language = (payload.language ?? 'javascript').toLowerCase()
-        
-        const result = await executeCode(payload.code, language)
-
-        const enriched = {
-          id: `run-${Date.now()}`,
-          language,
-          output: result.output,
-          error: result.error,
-          executionTime: result.executionTime,
-          author: { id: user.id, name: user.user_metadata?.name ?? user.email },
-          authorId: user.id,
-          time: new Date().toISOString(),
+        const room = `session:${sessionId}`
+        const runId = randomUUID()
+        const author = { id: user.id, name: user.user_metadata?.name ?? user.email }
+        const controller = new AbortController()
+
+        // The ack only goes out once the queue has admitted the run, so quota rejections still reach the caller.
+        let acknowledged = false
+        const acknowledge = () => {
+          if (acknowledged) return
+          acknowledged = true
+          callback?.({ ok: true, runId })
         }
 
-        io.to(`session:${sessionId}`).emit('code:run-result', enriched)
-        callback?.({ ok: true })
+        activeRuns.set(runId, { sessionId, authorId: user.id, controller })
+
+        try {
+          const result = await executeCode(payload.code, language, {
+            stdin,
+            args,
+            signal: controller.signal,
+            owner: { userId: user.id, sessionId },
+            onQueued: (position) => {
+              acknowledge()
+              socket.emit('code:run-queued', { runId, sessionId, position })
+            },
+            onStart: () => {
+              acknowledge()
+              io.to(room).emit('code:run-started', { runId, sessionId, language, author, time: new Date().toISOString() })
+            },
+            onOutput: (stream, chunk) => io.to(room).emit('code:run-output', { runId, sessionId, stream, chunk }),
+          })
+          acknowledge()
+
+          const enriched = {
+            id: runId,
+            runId,
+            sessionId,
+            language,
+            status: result.status,
+            output: result.output,
+            error: result.error,
+            exitCode: result.exitCode,
+            executionTime: result.executionTime,
+            author,
+            authorId: user.id,
+            time: new Date().toISOString(),
+          }
+
+          io.to(room).emit('code:run-result', enriched)
+
+          recordCodeRun({ id: runId, sessionId, authorId: user.id, language, code: payload.code, result }).catch((err) =>
+            logger.error('Failed to record code run', { runId, sessionId, message: (err as Error).message })
+          )
+        } finally {
+          activeRuns.delete(runId)
+        }
       } catch (err) {
-        const message = err instanceof HttpError ? err.message : 'Unable to run code'
-        callback?.({ ok: false, message })
-        socket.emit('session:error', { message })
+        const { message, status } = toSocketError(err, 'Unable to run code')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
       }
     }
   )
 
-  socket.on('webrtc:ready', () => {
-    const sessionId = data.sessionId
-    if (sessionId) {
-      socket.to(`session:${sessionId}`).emit('webrtc:ready')
-    }
-  })
+  socket.on(
+    'code:run-cancel',
+    async (payload: { runId?: string }, callback?: (res: { ok: boolean; message?: string; status?: number }) => void) => {
+      try {
+        const sessionId = data.sessionId
+        if (!sessionId) {
+          throw new HttpError(400, 'Join a session before cancelling runs')
+        }
 
-  socket.on('webrtc:offer', ({ sdp }) => {
-    const sessionId = data.sessionId
-    if (sessionId) {
-      socket.to(`session:${sessionId}`).emit('webrtc:offer', { sdp })
+        const run = payload?.runId ? activeRuns.get(payload.runId) : undefined
+        if (!run || run.sessionId !== sessionId) {
+          throw new HttpError(404, 'Run not found or already finished')
+        }
+
+        if (run.authorId !== user.id) {
+          await authorizeSessionAction(user.id, sessionId, 'moderate')
+        }
+
+        run.controller.abort()
+        callback?.({ ok: true })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to cancel run')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
     }
-  })
+  )
 
-  socket.on('webrtc:answer', ({ sdp }) => {
-    const sessionId = data.sessionId
-    if (sessionId) {
-      socket.to(`session:${sessionId}`).emit('webrtc:answer', { sdp })
+  socket.on(
+    'code:submit',
+    async (
+      payload: { code?: string; language?: string },
+      callback?: (res: { ok: boolean; message?: string; status?: number }) => void
+    ) => {
+      try {
+        const sessionId = data.sessionId
+        if (!sessionId) {
+          throw new HttpError(400, 'Join a session before submitting code')
+        }
+
+        if (!payload?.code) {
+          throw new HttpError(400, 'Code content is required')
+        }
+
+        await authorizeSessionAction(user.id, sessionId, 'run')
+        const submission = await gradeSubmission(user.id, sessionId, payload.code, payload.language ?? 'javascript')
+
+        io.to(`session:${sessionId}`).emit('code:graded', {
+          submissionId: submission.id,
+          sessionId,
+          language: submission.language,
+          score: submission.score,
+          passedCount: submission.passed_count,
+          totalCount: submission.total_count,
+          results: submission.results,
+          author: { id: user.id, name: user.user_metadata?.name ?? user.email },
+          authorId: user.id,
+          time: submission.created_at,
+        })
+
+        callback?.({ ok: true })
+      } catch (err) {
+        const { message, status } = toSocketError(err, 'Unable to grade submission')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
+      }
     }
-  })
+  )
 
-  socket.on('webrtc:ice-candidate', ({ candidate }) => {
+  // Signalling is relayed to the rest of the room only while the sender may use video; rejected events are reported
+  // back through `session:error` since these events have no acknowledgement.
+  const relayVideo = (event: string, payload?: unknown) => {
     const sessionId = data.sessionId
-    if (sessionId) {
-      socket.to(`session:${sessionId}`).emit('webrtc:ice-candidate', { candidate })
-    }
-  })
+    if (!sessionId) return
+
+    authorizeSessionAction(user.id, sessionId, 'video')
+      .then(() => {
+        socket.to(`session:${sessionId}`).emit(event, payload)
+      })
+      .catch((err) => {
+        socket.emit('session:error', toSocketError(err, 'Unable to relay video signal'))
+      })
+  }
+
+  socket.on('webrtc:ready', () => relayVideo('webrtc:ready'))
+
+  socket.on('webrtc:offer', ({ sdp }) => relayVideo('webrtc:offer', { sdp }))
+
+  socket.on('webrtc:answer', ({ sdp }) => relayVideo('webrtc:answer', { sdp }))
+
+  socket.on('webrtc:ice-candidate', ({ candidate }) => relayVideo('webrtc:ice-candidate', { candidate }))
 
   socket.on('webrtc:end', () => {
+    // Hanging up is always allowed, even after video has been switched off.
     const sessionId = data.sessionId
     if (sessionId) {
       socket.to(`session:${sessionId}`).emit('webrtc:end')
     }
   })
 
-  socket.on('media:state', (payload: { audio?: boolean; video?: boolean }) => {
-    const sessionId = data.sessionId
-    if (sessionId) {
-      socket.to(`session:${sessionId}`).emit('media:state', payload)
-    }
-  })
+  socket.on('media:state', (payload: { audio?: boolean; video?: boolean }) => relayVideo('media:state', payload))
 
   socket.on(
     'permissions:update',
     async (
       payload: { userId?: string; canEdit?: boolean; canShareScreen?: boolean },
-      callback?: (res: { ok: boolean; message?: string }) => void
+      callback?: (res: { ok: boolean; message?: string; status?: number }) => void
     ) => {
       try {
         const sessionId = data.sessionId
@@ -315,6 +813,8 @@ io.on('connection', (socket) => {
           throw new HttpError(400, 'userId is required')
         }
 
+        await authorizeSessionAction(user.id, sessionId, 'moderate')
+
         const participant = await updateParticipantPermissions(user.id, sessionId, payload.userId, {
           can_edit: payload.canEdit,
           can_share_screen: payload.canShareScreen,
@@ -329,11 +829,16 @@ io.on('connection', (socket) => {
           updated_by: user.id,
         })
 
+        const revoked = revokedPermissions({ can_edit: payload.canEdit, can_share_screen: payload.canShareScreen })
+        if (revoked.length > 0) {
+          emitToUserInSession(sessionId, participant.user_id, 'permissions:revoked', { sessionId, revoked })
+        }
+
         callback?.({ ok: true })
       } catch (err) {
-        const message = err instanceof HttpError ? err.message : 'Unable to update permissions'
-        callback?.({ ok: false, message })
-        socket.emit('session:error', { message })
+        const { message, status } = toSocketError(err, 'Unable to update permissions')
+        callback?.({ ok: false, message, status })
+        socket.emit('session:error', { message, status })
       }
     }
   )
@@ -344,6 +849,13 @@ server.listen(env.port, () => {
     port: env.port,
     nodeEnv: env.nodeEnv,
   })
+
+  lifecycleScheduler.start()
+  if (env.scheduler.enabled) {
+    scheduler.start()
+  }
+
+  void warmGoBuildCache()
 })
 
 process.on('unhandledRejection', (reason) => {
@@ -354,7 +866,14 @@ process.on('unhandledRejection', (reason) => {
   }
 })
 
-process.on('SIGTERM', () => {
-  logger.info('Received SIGTERM, shutting down gracefully')
-  server.close(() => process.exit(0))
-})
+const shutdown = (signal: NodeJS.Signals) => {
+  logger.info(`Received ${signal}, shutting down gracefully`)
+  scheduler.stop()
+  lifecycleScheduler.stop()
+  persistAllDocuments()
+    .catch((err) => logger.error('Failed to persist documents on shutdown', { message: (err as Error).message }))
+    .finally(() => server.close(() => process.exit(0)))
+}
+
+process.on('SIGTERM', shutdown)
+process.on('SIGINT', shutdown)
@@ -0,0 +1,100 @@
+import { logger } from '../logger'
+
+// Time source for scheduled jobs. Tests can pass a fake clock and drive jobs by hand with `runNow`.
+export type Clock = {
+  now: () => Date
+  setTimeout: (fn: () => void, ms: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+export type JobContext = {
+  now: Date
+}
+
+export type ScheduledJob = {
+  name: string
+  intervalMs: number
+  // Must be idempotent: a job can run again after a restart or overlap with work another run already did.
+  run: (ctx: JobContext) => Promise<void>
+}
+
+type JobEntry = {
+  job: ScheduledJob
+  handle: unknown
+  running: Promise<void> | null
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (fn, ms) => {
+    const timer = setTimeout(fn, ms)
+    timer.unref()
+    return timer
+  },
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+}
+
+export function createScheduler(clock: Clock = systemClock) {
+  const entries = new Map<string, JobEntry>()
+  let started = false
+
+  // A run that is still in progress is shared rather than started twice.
+  const runJob = (entry: JobEntry) => {
+    if (!entry.running) {
+      entry.running = entry.job
+        .run({ now: clock.now() })
+        .catch((err) => logger.error('Scheduled job failed', { job: entry.job.name, message: (err as Error).message }))
+        .finally(() => {
+          entry.running = null
+        })
+    }
+    return entry.running
+  }
+
+  const arm = (entry: JobEntry) => {
+    entry.handle = clock.setTimeout(() => {
+      void runJob(entry).then(() => {
+        if (started && entries.get(entry.job.name) === entry) arm(entry)
+      })
+    }, entry.job.intervalMs)
+  }
+
+  const disarm = (entry: JobEntry) => {
+    if (entry.handle !== null) clock.clearTimeout(entry.handle)
+    entry.handle = null
+  }
+
+  return {
+    register(job: ScheduledJob) {
+      const existing = entries.get(job.name)
+      if (existing) disarm(existing)
+
+      const entry: JobEntry = { job, handle: null, running: null }
+      entries.set(job.name, entry)
+      if (started) arm(entry)
+    },
+
+    start() {
+      if (started) return
+      started = true
+      entries.forEach(arm)
+    },
+
+    stop() {
+      started = false
+      entries.forEach(disarm)
+    },
+
+    async runNow(name: string) {
+      const entry = entries.get(name)
+      if (!entry) throw new Error(`Unknown scheduled job "${name}"`)
+      await runJob(entry)
+    },
+
+    async runAll() {
+      await Promise.all([...entries.values()].map(runJob))
+    },
+  }
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>
@@ -0,0 +1,76 @@
+import type { Server as SocketIOServer, Socket } from 'socket.io'
+
+let io: SocketIOServer | null = null
+
+export const setSocketServer = (server: SocketIOServer) => {
+  io = server
+}
+
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`
+
+// Lets REST handlers reach live session rooms; a no-op until the socket server is attached.
+export const emitToSession = (sessionId: string, event: string, payload: unknown) => {
+  io?.to(sessionRoom(sessionId)).emit(event, payload)
+}
+
+export const hasSessionConnections = (sessionId: string) =>
+  (io?.sockets.adapter.rooms.get(sessionRoom(sessionId))?.size ?? 0) > 0
+
+// Every socket also joins a personal room, so notifications reach all of a user's tabs wherever they are.
+export const userRoom = (userId: string) => `user:${userId}`
+
+export const emitToUser = (userId: string, event: string, payload: unknown) => {
+  io?.to(userRoom(userId)).emit(event, payload)
+}
+
+export type SessionRemovalReason = 'kicked' | 'cancelled'
+
+// A live connection as seen from outside its handlers: which session room it is in, and how to take it out with the
+// same cleanup (presence, document flush) as a `session:leave`.
+export type SocketConnection = {
+  socket: Socket
+  sessionId: () => string | undefined
+  leaveSession: (reason: string) => void
+}
+
+const connections = new Map<string, Map<string, SocketConnection>>()
+
+export const registerConnection = (userId: string, connection: SocketConnection) => {
+  const byUser = connections.get(userId) ?? new Map<string, SocketConnection>()
+  byUser.set(connection.socket.id, connection)
+  connections.set(userId, byUser)
+}
+
+export const unregisterConnection = (userId: string, socketId: string) => {
+  const byUser = connections.get(userId)
+  if (!byUser) return
+
+  byUser.delete(socketId)
+  if (byUser.size === 0) connections.delete(userId)
+}
+
+const connectionsInSession = (sessionId: string, userId?: string) => {
+  const candidates = userId
+    ? [...(connections.get(userId)?.values() ?? [])]
+    : [...connections.values()].flatMap((byUser) => [...byUser.values()])
+
+  return candidates.filter((connection) => connection.sessionId() === sessionId)
+}
+
+// Database changes only stop the next event; this also takes sockets out of the room at once, so they stop receiving
+// its traffic. Without `userId` everyone in the session is removed.
+export const removeFromSession = (sessionId: string, reason: SessionRemovalReason, userId?: string) => {
+  const targets = connectionsInSession(sessionId, userId)
+
+  targets.forEach((connection) => {
+    connection.socket.emit('session:removed', { sessionId, reason })
+    connection.leaveSession(reason)
+  })
+
+  return targets.length
+}
+
+// Reaches only the user's sockets that are in the session room, unlike `emitToUser`.
+export const emitToUserInSession = (sessionId: string, userId: string, event: string, payload: unknown) => {
+  connectionsInSession(sessionId, userId).forEach((connection) => connection.socket.emit(event, payload))
+}
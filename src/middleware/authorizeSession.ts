@@ -0,0 +1,16 @@
+import type { NextFunction, Request, Response } from 'express'
+import { authorizeSessionAction, type SessionAction } from '../services/authorization'
+import { HttpError } from '../utils/httpError'
+
+// Guards `/:id` session routes with the same rules the socket handlers use.
+export const authorizeSession = (action: SessionAction) =>
+  async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      await authorizeSessionAction(req.user.id, req.params.id, action)
+      next()
+    } catch (err) {
+      next(err)
+    }
+  }
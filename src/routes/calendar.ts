@@ -0,0 +1,20 @@
+import { Router } from 'express'
+import { renderUserCalendar, resolveCalendarFeedUser } from '../services/calendar'
+import type { Request, Response, NextFunction } from 'express'
+
+// Mounted ahead of `authenticate`: calendar apps poll this URL without a bearer token, so the secret token in the
+// path is the only credential.
+const router = Router()
+
+router.get('/feeds/:token.ics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = await resolveCalendarFeedUser(req.params.token)
+    const calendar = await renderUserCalendar(userId)
+
+    res.set('Cache-Control', 'private, max-age=300').type('text/calendar; charset=utf-8').send(calendar)
+  } catch (err) {
+    next(err)
+  }
+})
+
+export default router
@@ -0,0 +1,43 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { executeCode, MAX_ARG_LENGTH, MAX_ARGS, MAX_STDIN_BYTES } from '../services/codeRunner'
+import { HttpError } from '../utils/httpError'
+import type { Request, Response, NextFunction } from 'express'
+
+const router = Router()
+
+export const runSchema = z.object({
+  code: z.string().min(1).max(256 * 1024),
+  language: z.string().min(1).max(32).default('javascript'),
+  stdin: z
+    .string()
+    .refine((value) => Buffer.byteLength(value) <= MAX_STDIN_BYTES, `stdin must be at most ${MAX_STDIN_BYTES} bytes`)
+    .optional(),
+  args: z.array(z.string().max(MAX_ARG_LENGTH)).max(MAX_ARGS).optional(),
+})
+
+// Personal scratchpad: runs code for the caller without touching any session.
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const payload = runSchema.parse(req.body ?? {})
+    const language = payload.language.toLowerCase()
+
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+
+    const result = await executeCode(payload.code, language, {
+      stdin: payload.stdin,
+      args: payload.args,
+      signal: controller.signal,
+      owner: { userId: req.user.id },
+    })
+
+    res.json({ data: { language, ...result } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+export default router
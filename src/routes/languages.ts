@@ -0,0 +1,18 @@
+import { Router } from 'express'
+import { listLanguageAvailability } from '../services/languages'
+import type { Request, Response, NextFunction } from 'express'
+
+const router = Router()
+
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const languages = await listLanguageAvailability()
+    const installedOnly = req.query.installed === 'true'
+
+    res.json({ data: installedOnly ? languages.filter((language) => language.installed) : languages })
+  } catch (err) {
+    next(err)
+  }
+})
+
+export default router
@@ -1,20 +1,67 @@
 import { Router } from 'express'
+import { randomUUID } from 'crypto'
 import { z } from 'zod'
 import { supabaseAdmin } from '../lib/supabase'
 import { HttpError } from '../utils/httpError'
+import { isValidTimeZone } from '../utils/timezone'
 import {
-  addCodeSnapshot,
-  addSessionMessage,
   createSession,
-  ensureSessionParticipant,
+  ensureSessionOwner,
   formatPostgrestError,
   getSessionForUser,
   joinSessionByCode,
   kickParticipant,
   listSessionsForUser,
+  revokedPermissions,
+  revokeInviteCode,
+  rotateInviteCode,
+  setParticipantRole,
+  transferSessionOwnership,
+  updateInviteCodeLimits,
   updateParticipantPermissions,
   updateSessionSettings,
 } from '../services/session'
+import { executeCode } from '../services/codeRunner'
+import { listCodeRuns, recordCodeRun } from '../services/codeRuns'
+import { diffCodeSnapshots, getCodeSnapshot, listCodeSnapshots, restoreCodeSnapshot } from '../services/codeHistory'
+import { listPresence } from '../services/presence'
+import { onSessionStatusChanged } from '../services/sessionLifecycle'
+import {
+  admitEveryoneWaiting,
+  decideLobbyRequest,
+  listLobby,
+  notifyLobbyRequest,
+  type LobbyDecision,
+} from '../services/lobby'
+import { issueInviteLink, joinSessionByInviteToken } from '../services/inviteLinks'
+import { renderUserCalendar, revokeCalendarFeedToken, rotateCalendarFeedToken } from '../services/calendar'
+import { createSessionSeries, getSessionSeries, updateFollowingOccurrences } from '../services/sessionSeries'
+import {
+  addMessageReaction,
+  addSessionMessage,
+  deleteSessionMessage,
+  editSessionMessage,
+  listSessionMessages,
+  parseEmoji,
+  removeMessageReaction,
+  toChatEvent,
+  toDeletedEvent,
+  toEditedEvent,
+  toReactionEvent,
+} from '../services/chat'
+import { getDocumentState, persistDocument, replaceDocument } from '../services/collab'
+import { emitToSession, emitToUserInSession, removeFromSession } from '../lib/socket'
+import { env } from '../config/env'
+import { authorizeSession } from '../middleware/authorizeSession'
+import { logger } from '../logger'
+import { runSchema } from './execute'
+import {
+  createTestCase,
+  deleteTestCase,
+  listSubmissions,
+  listTestCases,
+  updateTestCase,
+} from '../services/grading'
 import type { Request, Response, NextFunction } from 'express'
 
 const router = Router()
@@ -41,10 +88,27 @@ const createSchema = z.object({
   allow_collab: z.boolean().optional(),
   allow_chat: z.boolean().optional(),
   allow_video: z.boolean().optional(),
+  lobby_enabled: z.boolean().optional(),
   metadata: z.record(z.any()).optional(),
+  invite_expires_at: z.string().datetime().optional(),
+  invite_max_uses: z.number().int().positive().max(10000).optional(),
   participant_ids: z.array(z.string().uuid()).optional(),
 })
 
+const seriesSchema = createSchema.omit({ scheduled_at: true, invite_expires_at: true }).extend({
+  recurrence: z
+    .object({
+      frequency: z.enum(['daily', 'weekly', 'biweekly']),
+      starts_at: z.string().datetime(),
+      until: z.string().datetime().optional(),
+      count: z.number().int().min(1).max(52).optional(),
+      timezone: z.string().max(64).refine(isValidTimeZone, 'Unknown timezone').default('UTC'),
+    })
+    .refine((rule) => (rule.until === undefined) !== (rule.count === undefined), {
+      message: 'Provide exactly one of until or count',
+    }),
+})
+
 const joinSchema = z.object({
   code: z.string().min(4).max(32),
 })
@@ -58,19 +122,116 @@ const updateSchema = z.object({
   allow_collab: z.boolean().optional(),
   allow_chat: z.boolean().optional(),
   allow_video: z.boolean().optional(),
+  lobby_enabled: z.boolean().optional(),
   metadata: z.record(z.any()).nullable().optional(),
 })
 
+// `following` applies the update to this occurrence and the rest of its series.
+const updateScopeSchema = z.object({
+  scope: z.enum(['occurrence', 'following']).default('occurrence'),
+})
+
+const inviteLinkSchema = z.object({
+  role: z.enum(['student', 'co-mentor']).default('student'),
+  email: z.string().email().optional(),
+  expires_in_minutes: z.number().int().positive().max(30 * 24 * 60).default(7 * 24 * 60),
+})
+
+const joinLinkSchema = z.object({
+  token: z.string().min(1).max(2048),
+})
+
+const inviteLimitsSchema = z.object({
+  expires_at: z.string().datetime().nullable().optional(),
+  max_uses: z.number().int().positive().max(10000).nullable().optional(),
+})
+
 const kickSchema = z.object({
   user_id: z.string().uuid(),
 })
 
+const roleSchema = z.object({
+  user_id: z.string().uuid(),
+  role: z.enum(['co-host', 'student']),
+})
+
+const transferSchema = z.object({
+  user_id: z.string().uuid(),
+})
+
 const permissionSchema = z.object({
   user_id: z.string().uuid(),
   can_edit: z.boolean().optional(),
   can_share_screen: z.boolean().optional(),
 })
 
+const sessionRunSchema = runSchema.extend({
+  broadcast: z.boolean().optional(),
+})
+
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+const messagePageSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  before: z.string().uuid().optional(),
+  after: z.string().uuid().optional(),
+  parent_id: z.string().uuid().optional(),
+})
+
+const messageSchema = z.object({
+  message: z.string().min(1).max(2000),
+})
+
+const newMessageSchema = messageSchema.extend({
+  parent_id: z.string().uuid().optional(),
+})
+
+const reactionSchema = z.object({
+  emoji: z.string().min(1),
+})
+
+const diffSchema = z.object({
+  from: z.string().uuid(),
+  to: z.string().uuid(),
+})
+
+const restoreSchema = z.object({
+  snapshot_id: z.string().uuid(),
+})
+
+const testCaseSchema = z.object({
+  name: z.string().min(1).max(200).nullable().optional(),
+  input: z.string().max(256 * 1024).optional(),
+  expected_output: z.string().max(256 * 1024),
+  comparison: z.enum(['exact', 'trimmed', 'regex']).optional(),
+  time_limit_ms: z.number().int().min(100).max(10000).optional(),
+  hidden: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+})
+
+const validRegex = (test: { comparison?: string; expected_output?: string }) => {
+  if (test.comparison !== 'regex' || test.expected_output === undefined) return true
+  try {
+    new RegExp(test.expected_output)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const createTestCaseSchema = testCaseSchema.refine(validRegex, {
+  message: 'expected_output must be a valid regular expression',
+  path: ['expected_output'],
+})
+
+const updateTestCaseSchema = testCaseSchema.partial().refine(validRegex, {
+  message: 'expected_output must be a valid regular expression',
+  path: ['expected_output'],
+})
+
 router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
@@ -86,7 +247,10 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       allow_collab: payload.allow_collab,
       allow_chat: payload.allow_chat,
       allow_video: payload.allow_video,
+      lobby_enabled: payload.lobby_enabled,
       metadata: payload.metadata,
+      invite_expires_at: payload.invite_expires_at,
+      invite_max_uses: payload.invite_max_uses,
       participantUserIds: payload.participant_ids,
     })
 
@@ -96,21 +260,110 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 })
 
+router.get('/calendar.ics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const calendar = await renderUserCalendar(req.user.id)
+
+    res.type('text/calendar; charset=utf-8').send(calendar)
+  } catch (err) {
+    next(err)
+  }
+})
+
+// Creates (or replaces) the caller's secret feed URL; the previous URL stops working.
+router.post('/calendar/feed', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const token = await rotateCalendarFeedToken(req.user.id)
+    const baseUrl = env.publicApiUrl?.replace(/\/$/, '') ?? `${req.protocol}://${req.get('host')}`
+
+    res.status(201).json({ data: { url: `${baseUrl}/api/calendar/feeds/${token}.ics` } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.delete('/calendar/feed', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    await revokeCalendarFeedToken(req.user.id)
+
+    res.status(204).send()
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/series', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can create sessions')
+
+    const { participant_ids, recurrence, ...template } = seriesSchema.parse(req.body ?? {})
+
+    const series = await createSessionSeries(req.user.id, {
+      ...template,
+      participantUserIds: participant_ids,
+      recurrence,
+    })
+
+    res.status(201).json({ data: series })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/series/:seriesId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const series = await getSessionSeries(req.user.id, req.params.seriesId)
+
+    res.json({ data: series })
+  } catch (err) {
+    next(err)
+  }
+})
+
 router.post('/join', async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
 
     const { code } = joinSchema.parse(req.body ?? {})
 
-    const session = await joinSessionByCode(req.user.id, code)
+    const { session, admission } = await joinSessionByCode(req.user.id, code)
+    if (admission === 'pending') {
+      await notifyLobbyRequest(session.id, req.user.id)
+    }
 
-    res.status(200).json({ data: { session_id: session.id } })
+    res.status(200).json({ data: { session_id: session.id, admission } })
   } catch (err) {
     next(err)
   }
 })
 
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/join-link', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const { token } = joinLinkSchema.parse(req.body ?? {})
+
+    const { session, role, admission } = await joinSessionByInviteToken(req.user, token)
+    if (admission === 'pending') {
+      await notifyLobbyRequest(session.id, req.user.id)
+    }
+
+    res.status(200).json({ data: { session_id: session.id, role, admission } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
 
@@ -122,41 +375,249 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 })
 
-router.post('/:id/messages', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/presence', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: listPresence(req.params.id) })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id/messages', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { parent_id, ...page } = messagePageSchema.parse(req.query)
+    const { messages, hasMore } = await listSessionMessages(req.params.id, { ...page, parentId: parent_id })
+
+    res.json({ data: messages, pagination: { limit: page.limit, has_more: hasMore } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/messages', authorizeSession('chat'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
 
-    const { message } = z.object({ message: z.string().min(1).max(2000) }).parse(req.body ?? {})
+    const { message, parent_id } = newMessageSchema.parse(req.body ?? {})
 
-    await addSessionMessage(req.params.id, req.user.id, message)
+    const created = await addSessionMessage(req.params.id, req.user.id, message, parent_id)
+    emitToSession(req.params.id, 'chat:message', toChatEvent(created))
 
-    res.status(201).json({ ok: true })
+    res.status(201).json({ data: created })
   } catch (err) {
     next(err)
   }
 })
 
-router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.patch(
+  '/:id/messages/:messageId',
+  authorizeSession('chat'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      const { message } = messageSchema.parse(req.body ?? {})
+      const edited = await editSessionMessage(req.user.id, req.params.id, req.params.messageId, message)
+      emitToSession(req.params.id, 'chat:edited', toEditedEvent(edited))
+
+      res.json({ data: edited })
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+router.delete(
+  '/:id/messages/:messageId',
+  authorizeSession('view'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      const deleted = await deleteSessionMessage(req.user.id, req.params.id, req.params.messageId)
+      emitToSession(req.params.id, 'chat:deleted', toDeletedEvent(deleted))
+
+      res.status(204).send()
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+router.post(
+  '/:id/messages/:messageId/reactions',
+  authorizeSession('chat'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      const emoji = parseEmoji(reactionSchema.parse(req.body ?? {}).emoji)
+      const { id: sessionId, messageId } = req.params
+      const reactions = await addMessageReaction(req.user.id, sessionId, messageId, emoji)
+      emitToSession(sessionId, 'chat:reaction', toReactionEvent(sessionId, messageId, req.user.id, emoji, 'add', reactions))
+
+      res.status(201).json({ data: reactions })
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+router.delete(
+  '/:id/messages/:messageId/reactions/:emoji',
+  authorizeSession('chat'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      const emoji = parseEmoji(req.params.emoji)
+      const { id: sessionId, messageId } = req.params
+      const reactions = await removeMessageReaction(req.user.id, sessionId, messageId, emoji)
+      emitToSession(
+        sessionId,
+        'chat:reaction',
+        toReactionEvent(sessionId, messageId, req.user.id, emoji, 'remove', reactions)
+      )
+
+      res.json({ data: reactions })
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+router.patch('/:id', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
     if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can update sessions')
 
     const updates = updateSchema.parse(req.body ?? {})
-    const session = await updateSessionSettings(req.user.id, req.params.id, updates)
+    const { scope } = updateScopeSchema.parse(req.query)
+    const { sessions, statusChangedIds } =
+      scope === 'following'
+        ? await updateFollowingOccurrences(req.user.id, req.params.id, updates)
+        : await updateSessionSettings(req.user.id, req.params.id, updates)
+
+    for (const session of sessions) {
+      if (statusChangedIds.includes(session.id)) {
+        await onSessionStatusChanged(session)
+      }
+
+      if (updates.lobby_enabled === false) {
+        await admitEveryoneWaiting(req.user.id, session.id)
+      }
+
+      emitToSession(session.id, 'session:settings', {
+        sessionId: session.id,
+        allow_collab: session.allow_collab,
+        allow_chat: session.allow_chat,
+        allow_video: session.allow_video,
+        lobby_enabled: session.lobby_enabled,
+        updated_by: req.user.id,
+      })
+    }
 
-    res.json({ data: session })
+    res.json(scope === 'following' ? { data: sessions[0], occurrences: sessions } : { data: sessions[0] })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id/lobby', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ data: await listLobby(req.params.id) })
+  } catch (err) {
+    next(err)
+  }
+})
+
+const decideLobby =
+  (decision: LobbyDecision) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+      const participant = await decideLobbyRequest(req.user.id, req.params.id, req.params.userId, decision)
+
+      res.json({ data: participant })
+    } catch (err) {
+      next(err)
+    }
+  }
+
+router.post('/:id/lobby/:userId/admit', authorizeSession('moderate'), decideLobby('admitted'))
+
+router.post('/:id/lobby/:userId/deny', authorizeSession('moderate'), decideLobby('denied'))
+
+router.post('/:id/invite-code', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage invite codes')
+
+    const limits = inviteLimitsSchema.parse(req.body ?? {})
+    const invite = await rotateInviteCode(req.user.id, req.params.id, limits)
+
+    res.status(201).json({ data: invite })
   } catch (err) {
     next(err)
   }
 })
 
-router.post('/:id/kick', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/invite-links', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can create invite links')
+
+    const payload = inviteLinkSchema.parse(req.body ?? {})
+    // Co-mentor links make co-hosts, so only the owner may hand them out.
+    if (payload.role === 'co-mentor') {
+      await ensureSessionOwner(req.user.id, req.params.id)
+    }
+    const link = issueInviteLink(req.params.id, {
+      role: payload.role,
+      email: payload.email,
+      expiresInMinutes: payload.expires_in_minutes,
+    })
+
+    res.status(201).json({ data: link })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.patch('/:id/invite-code', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage invite codes')
+
+    const limits = inviteLimitsSchema.parse(req.body ?? {})
+    const invite = await updateInviteCodeLimits(req.user.id, req.params.id, limits)
+
+    res.json({ data: invite })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.delete('/:id/invite-code', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage invite codes')
+
+    const invite = await revokeInviteCode(req.user.id, req.params.id)
+
+    res.json({ data: invite })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/kick', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
-    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage roster')
 
     const { user_id } = kickSchema.parse(req.body ?? {})
     await kickParticipant(req.user.id, req.params.id, user_id)
+    removeFromSession(req.params.id, 'kicked', user_id)
 
     res.status(204).send()
   } catch (err) {
@@ -164,25 +625,85 @@ router.post('/:id/kick', async (req: Request, res: Response, next: NextFunction)
   }
 })
 
-router.post('/:id/permissions', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/permissions', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
-    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage permissions')
 
     const payload = permissionSchema.parse(req.body ?? {})
 
-    const participant = await updateParticipantPermissions(req.user.id, req.params.id, payload.user_id, {
-      can_edit: payload.can_edit,
-      can_share_screen: payload.can_share_screen,
+    const changes = { can_edit: payload.can_edit, can_share_screen: payload.can_share_screen }
+    const participant = await updateParticipantPermissions(req.user.id, req.params.id, payload.user_id, changes)
+
+    emitToSession(req.params.id, 'permissions:update', {
+      sessionId: req.params.id,
+      user_id: participant.user_id,
+      role: participant.role,
+      can_edit: participant.can_edit,
+      can_share_screen: participant.can_share_screen,
+      updated_by: req.user.id,
     })
 
+    const revoked = revokedPermissions(changes)
+    if (revoked.length > 0) {
+      emitToUserInSession(req.params.id, participant.user_id, 'permissions:revoked', {
+        sessionId: req.params.id,
+        revoked,
+      })
+    }
+
+    res.json({ data: participant })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/roles', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const { user_id, role } = roleSchema.parse(req.body ?? {})
+    const { participant, previousRole } = await setParticipantRole(req.user.id, req.params.id, user_id, role)
+
+    emitToSession(req.params.id, 'permissions:update', {
+      sessionId: req.params.id,
+      user_id: participant.user_id,
+      role: participant.role,
+      can_edit: participant.can_edit,
+      can_share_screen: participant.can_share_screen,
+      updated_by: req.user.id,
+    })
+
+    const revoked = revokedPermissions({ role, previousRole })
+    if (revoked.length > 0) {
+      emitToUserInSession(req.params.id, user_id, 'permissions:revoked', { sessionId: req.params.id, revoked })
+    }
+
     res.json({ data: participant })
   } catch (err) {
     next(err)
   }
 })
 
-router.post('/:id/code', async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/transfer', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const { user_id } = transferSchema.parse(req.body ?? {})
+    const session = await transferSessionOwnership(req.user.id, req.params.id, user_id)
+
+    emitToSession(req.params.id, 'session:owner', {
+      sessionId: req.params.id,
+      owner_id: user_id,
+      previous_owner_id: req.user.id,
+    })
+
+    res.json({ data: session })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/code', authorizeSession('edit'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
 
@@ -193,7 +714,22 @@ router.post('/:id/code', async (req: Request, res: Response, next: NextFunction)
       })
       .parse(req.body ?? {})
 
-    await addCodeSnapshot(req.params.id, req.user.id, payload.code, payload.language ?? 'javascript')
+    const language = payload.language ?? 'javascript'
+    const state = await replaceDocument(req.params.id, req.user.id, payload.code, language)
+
+    emitToSession(req.params.id, 'code:update', {
+      code: payload.code,
+      language,
+      revision: state.revision,
+      sessionId: req.params.id,
+      authorId: req.user.id,
+      updatedAt: new Date().toISOString(),
+    })
+
+    // REST writes are explicit saves, so they are flushed before responding.
+    if (!(await persistDocument(req.params.id))) {
+      throw new HttpError(500, 'Unable to store code snapshot')
+    }
 
     res.status(201).json({ ok: true })
   } catch (err) {
@@ -201,4 +737,212 @@ router.post('/:id/code', async (req: Request, res: Response, next: NextFunction)
   }
 })
 
+router.get('/:id/code/history', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const pagination = paginationSchema.parse(req.query)
+    const { snapshots, total } = await listCodeSnapshots(req.params.id, pagination)
+
+    res.json({ data: snapshots, pagination: { ...pagination, total } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get(
+  '/:id/code/history/:snapshotId',
+  authorizeSession('view'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const snapshot = await getCodeSnapshot(req.params.id, req.params.snapshotId)
+
+      res.json({ data: snapshot })
+    } catch (err) {
+      next(err)
+    }
+  }
+)
+
+router.get('/:id/code/diff', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { from, to } = diffSchema.parse(req.query)
+    const diff = await diffCodeSnapshots(req.params.id, from, to)
+
+    res.json({ data: diff })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/code/save', authorizeSession('edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!(await persistDocument(req.params.id))) {
+      throw new HttpError(500, 'Unable to store code snapshot')
+    }
+
+    res.json({ data: await getDocumentState(req.params.id) })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/code/restore', authorizeSession('edit'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const { snapshot_id } = restoreSchema.parse(req.body ?? {})
+    const { snapshot, state } = await restoreCodeSnapshot(req.user.id, req.params.id, snapshot_id)
+
+    emitToSession(req.params.id, 'code:update', {
+      code: state.content,
+      language: state.language,
+      revision: state.revision,
+      sessionId: req.params.id,
+      authorId: req.user.id,
+      restoredFrom: snapshot.id,
+      updatedAt: new Date().toISOString(),
+    })
+
+    if (!(await persistDocument(req.params.id))) {
+      throw new HttpError(500, 'Unable to store code snapshot')
+    }
+
+    res.json({ data: { document: await getDocumentState(req.params.id), restored_from: snapshot.id } })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id/tests', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const testCases = await listTestCases(req.user.id, req.params.id)
+
+    res.json({ data: testCases })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/tests', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage test cases')
+
+    const payload = createTestCaseSchema.parse(req.body ?? {})
+    const testCase = await createTestCase(req.user.id, req.params.id, payload)
+
+    res.status(201).json({ data: testCase })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.patch('/:id/tests/:testId', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage test cases')
+
+    const updates = updateTestCaseSchema.parse(req.body ?? {})
+    const testCase = await updateTestCase(req.user.id, req.params.id, req.params.testId, updates)
+
+    res.json({ data: testCase })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.delete('/:id/tests/:testId', authorizeSession('moderate'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+    if (req.user.role !== 'mentor') throw new HttpError(403, 'Only mentors can manage test cases')
+
+    await deleteTestCase(req.user.id, req.params.id, req.params.testId)
+
+    res.status(204).send()
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id/submissions', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const submissions = await listSubmissions(req.user.id, req.params.id)
+
+    res.json({ data: submissions })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.post('/:id/run', authorizeSession('run'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const sessionId = req.params.id
+    const payload = sessionRunSchema.parse(req.body ?? {})
+
+    const language = payload.language.toLowerCase()
+    const runId = randomUUID()
+    const author = { id: req.user.id, name: req.user.user_metadata?.name ?? req.user.email }
+
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+
+    const result = await executeCode(payload.code, language, {
+      stdin: payload.stdin,
+      args: payload.args,
+      signal: controller.signal,
+      owner: { userId: req.user.id, sessionId },
+      onStart: () => {
+        if (payload.broadcast) {
+          emitToSession(sessionId, 'code:run-started', { runId, sessionId, language, author, time: new Date().toISOString() })
+        }
+      },
+    })
+
+    const enriched = {
+      id: runId,
+      runId,
+      sessionId,
+      language,
+      status: result.status,
+      output: result.output,
+      error: result.error,
+      exitCode: result.exitCode,
+      executionTime: result.executionTime,
+      author,
+      authorId: req.user.id,
+      time: new Date().toISOString(),
+    }
+
+    if (payload.broadcast) {
+      emitToSession(sessionId, 'code:run-result', enriched)
+    }
+
+    recordCodeRun({ id: runId, sessionId, authorId: req.user.id, language, code: payload.code, result }).catch((err) =>
+      logger.error('Failed to record code run', { runId, sessionId, message: (err as Error).message })
+    )
+
+    res.json({ data: enriched })
+  } catch (err) {
+    next(err)
+  }
+})
+
+router.get('/:id/runs', authorizeSession('view'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.id) throw new HttpError(401, 'Not authenticated')
+
+    const pagination = paginationSchema.parse(req.query)
+    const { runs, total } = await listCodeRuns(req.user.id, req.params.id, pagination)
+
+    res.json({ data: runs, pagination: { ...pagination, total } })
+  } catch (err) {
+    next(err)
+  }
+})
+
 export default router
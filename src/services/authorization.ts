@@ -0,0 +1,66 @@
+import { HttpError } from '../utils/httpError'
+import { getSessionAccess, isModeratorRole, type SessionAccess } from './session'
+
+export type SessionAction = 'view' | 'chat' | 'edit' | 'run' | 'video' | 'moderate'
+
+const isModerator = (access: SessionAccess) => isModeratorRole(access.participant?.role)
+
+const forbidden = (action: SessionAction, message: string) => new HttpError(403, message, { action })
+
+// The single place that decides what a participant may do in a session. Mentors and co-hosts always keep chat and the
+// editor so they can run a session with those features switched off for everyone else; video is off for the whole room.
+export function assertSessionAction(access: SessionAccess, action: SessionAction) {
+  const { session, participant } = access
+
+  if (!participant) {
+    throw forbidden(action, 'You are not a participant in this session')
+  }
+
+  if (participant.kicked_at) {
+    throw forbidden(action, 'You have been removed from this session')
+  }
+
+  if (participant.admission === 'pending') {
+    throw forbidden(action, 'You are waiting for a mentor to admit you')
+  }
+
+  if (participant.admission === 'denied') {
+    throw forbidden(action, 'Your request to join this session was declined')
+  }
+
+  switch (action) {
+    case 'view':
+    case 'run':
+      return
+    case 'chat':
+      if (!session.allow_chat && !isModerator(access)) {
+        throw forbidden(action, 'Chat is disabled for this session')
+      }
+      return
+    case 'edit':
+      if (isModerator(access)) return
+      if (!session.allow_collab) {
+        throw forbidden(action, 'Collaborative editing is disabled for this session')
+      }
+      if (!participant.can_edit) {
+        throw forbidden(action, 'You do not have permission to edit code in this session')
+      }
+      return
+    case 'video':
+      if (!session.allow_video) {
+        throw forbidden(action, 'Video is disabled for this session')
+      }
+      return
+    case 'moderate':
+      if (!isModerator(access)) {
+        throw forbidden(action, 'Only mentors of this session can do that')
+      }
+      return
+  }
+}
+
+export async function authorizeSessionAction(userId: string, sessionId: string, action: SessionAction) {
+  const access = await getSessionAccess(userId, sessionId)
+  assertSessionAction(access, action)
+  return access
+}
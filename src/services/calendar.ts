@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from 'crypto'
+import { env } from '../config/env'
+import { supabaseAdmin } from '../lib/supabase'
+import { buildCalendar, type CalendarEvent } from '../utils/ical'
+import { HttpError } from '../utils/httpError'
+import { formatPostgrestError, listSessionsForUser } from './session'
+import type { MentorshipSession } from '../types'
+
+type CalendarSession = Pick<
+  MentorshipSession,
+  'id' | 'title' | 'summary' | 'status' | 'scheduled_at' | 'duration_minutes' | 'created_at' | 'updated_at'
+>
+
+// Only a hash of the feed token is stored; the token itself is shown once, when the feed URL is created.
+const hashFeedToken = (token: string) => createHash('sha256').update(token, 'utf-8').digest('hex')
+
+export const sessionJoinUrl = (sessionId: string) => `${env.appUrl.replace(/\/$/, '')}/sessions/${sessionId}`
+
+// Sessions without a `scheduled_at` have nowhere to go on a calendar and are left out. Every write to a session moves
+// `updated_at` forward, so the seconds since creation give a `SEQUENCE` that grows with each reschedule.
+export function toCalendarEvent(session: CalendarSession): CalendarEvent | null {
+  if (!session.scheduled_at) return null
+
+  const joinUrl = sessionJoinUrl(session.id)
+  const createdAt = new Date(session.created_at)
+  const updatedAt = session.updated_at ? new Date(session.updated_at) : createdAt
+
+  return {
+    uid: `${session.id}@onewise`,
+    start: new Date(session.scheduled_at),
+    durationMinutes: session.duration_minutes,
+    summary: session.title,
+    description: [session.summary, `Join: ${joinUrl}`].filter(Boolean).join('\n\n'),
+    url: joinUrl,
+    status: session.status === 'cancelled' || session.status === 'missed' ? 'CANCELLED' : 'CONFIRMED',
+    sequence: Math.max(0, Math.floor((updatedAt.getTime() - createdAt.getTime()) / 1000)),
+    lastModified: updatedAt,
+  }
+}
+
+export async function renderUserCalendar(userId: string) {
+  const sessions = (await listSessionsForUser(userId)) as CalendarSession[]
+  const events = sessions.map(toCalendarEvent).filter((event): event is CalendarEvent => event !== null)
+
+  return buildCalendar(events, { productId: '-//OneWise//Mentorship Sessions//EN', name: 'OneWise sessions' })
+}
+
+// Issues a new secret feed token for the user, replacing (and so invalidating) any previous one.
+export async function rotateCalendarFeedToken(userId: string) {
+  const token = randomBytes(24).toString('base64url')
+
+  const { error } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .upsert({ user_id: userId, token_hash: hashFeedToken(token), created_at: new Date().toISOString() }, {
+      onConflict: 'user_id',
+    })
+
+  if (error) {
+    throw new HttpError(500, 'Unable to create calendar feed', formatPostgrestError(error))
+  }
+
+  return token
+}
+
+export async function revokeCalendarFeedToken(userId: string) {
+  const { error } = await supabaseAdmin.from('calendar_feed_tokens').delete().eq('user_id', userId)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to revoke calendar feed', formatPostgrestError(error))
+  }
+}
+
+export async function resolveCalendarFeedUser(token: string) {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .select('user_id')
+    .eq('token_hash', hashFeedToken(token))
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load calendar feed', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Calendar feed not found')
+  }
+
+  return data.user_id as string
+}
@@ -0,0 +1,422 @@
+import { emitToUser } from '../lib/socket'
+import { supabaseAdmin } from '../lib/supabase'
+import { logger } from '../logger'
+import { HttpError } from '../utils/httpError'
+import { assertSessionAction } from './authorization'
+import { loadMentionCandidates, loadMentions, parseMentions, storeMentions, type MessageMention } from './mentions'
+import { ensureSessionParticipant, formatPostgrestError, getSessionAccess } from './session'
+import type { Profile, SessionMessage, SessionMessageReaction } from '../types'
+
+const MESSAGE_SELECT = 'id,session_id,author_id,content,parent_id,created_at,edited_at,deleted_at,deleted_by'
+
+const MAX_EMOJI_LENGTH = 32
+
+export type MessageAuthor = Pick<Profile, 'id' | 'name' | 'avatar_url' | 'role'>
+
+export type ReactionSummary = {
+  emoji: string
+  count: number
+  user_ids: string[]
+}
+
+export type ChatMessage = SessionMessage & {
+  author: MessageAuthor
+  reactions: ReactionSummary[]
+  mentions: MessageMention[]
+  reply_count: number
+}
+
+export type MessagePage = {
+  limit: number
+  before?: string
+  after?: string
+  // Only the replies of this thread root.
+  parentId?: string
+}
+
+async function loadAuthors(authorIds: string[]) {
+  const ids = [...new Set(authorIds)]
+  if (ids.length === 0) return new Map<string, MessageAuthor>()
+
+  const { data, error } = await supabaseAdmin.from('profiles').select('id,name,avatar_url,role').in('id', ids)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load message authors', formatPostgrestError(error))
+  }
+
+  return new Map((data ?? []).map((profile) => [profile.id as string, profile as MessageAuthor]))
+}
+
+async function loadReactions(messageIds: string[]) {
+  const byMessage = new Map<string, ReactionSummary[]>()
+  if (messageIds.length === 0) return byMessage
+
+  const { data, error } = await supabaseAdmin
+    .from('session_message_reactions')
+    .select('message_id,user_id,emoji,created_at')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load message reactions', formatPostgrestError(error))
+  }
+
+  ;((data ?? []) as Pick<SessionMessageReaction, 'message_id' | 'user_id' | 'emoji'>[]).forEach((reaction) => {
+    const summaries = byMessage.get(reaction.message_id) ?? []
+    let summary = summaries.find((entry) => entry.emoji === reaction.emoji)
+    if (!summary) {
+      summary = { emoji: reaction.emoji, count: 0, user_ids: [] }
+      summaries.push(summary)
+    }
+    summary.count += 1
+    summary.user_ids.push(reaction.user_id)
+    byMessage.set(reaction.message_id, summaries)
+  })
+
+  return byMessage
+}
+
+async function loadReplyCounts(messageIds: string[]) {
+  const counts = new Map<string, number>()
+  if (messageIds.length === 0) return counts
+
+  const { data, error } = await supabaseAdmin.from('session_messages').select('parent_id').in('parent_id', messageIds)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load replies', formatPostgrestError(error))
+  }
+
+  ;(data ?? []).forEach((reply) => counts.set(reply.parent_id, (counts.get(reply.parent_id) ?? 0) + 1))
+  return counts
+}
+
+// Authors without a profile row still get an entry so clients can always render `author.name ?? 'Unknown'`.
+export async function enrichMessages(messages: SessionMessage[]): Promise<ChatMessage[]> {
+  const messageIds = messages.map((message) => message.id)
+  const [mentions, reactions, replyCounts] = await Promise.all([
+    loadMentions(messageIds),
+    loadReactions(messageIds),
+    loadReplyCounts(messageIds),
+  ])
+  const authors = await loadAuthors([
+    ...messages.map((message) => message.author_id),
+    ...[...mentions.values()].flat(),
+  ])
+
+  return messages.map((message) => ({
+    ...message,
+    author: authors.get(message.author_id) ?? { id: message.author_id, name: null, avatar_url: null, role: null },
+    reactions: reactions.get(message.id) ?? [],
+    mentions: (mentions.get(message.id) ?? []).map((userId) => ({ user_id: userId, name: authors.get(userId)?.name ?? null })),
+    reply_count: replyCounts.get(message.id) ?? 0,
+  }))
+}
+
+// Targeted at the mentioned users' personal rooms, so it arrives even if they are not looking at the session.
+const notifyMentions = (message: ChatMessage, userIds: string[]) => {
+  userIds.forEach((userId) =>
+    emitToUser(userId, 'chat:mention', {
+      sessionId: message.session_id,
+      messageId: message.id,
+      parentId: message.parent_id,
+      text: message.content,
+      time: message.edited_at ?? message.created_at,
+      author: message.author,
+    })
+  )
+}
+
+// Stores the mentions of a message's current content and notifies users mentioned for the first time.
+async function syncMentions(message: SessionMessage) {
+  const candidates = await loadMentionCandidates(message.session_id)
+  const mentioned = parseMentions(message.content, candidates).filter((userId) => userId !== message.author_id)
+  const added = await storeMentions(message.session_id, message.id, mentioned)
+
+  const [enriched] = await enrichMessages([message])
+  notifyMentions(enriched, added)
+  return enriched
+}
+
+// Shape of the `chat:message` socket event. `clientId` echoes the sender's optimistic id so it can be reconciled.
+export const toChatEvent = (message: ChatMessage, clientId?: string) => ({
+  id: message.id,
+  sessionId: message.session_id,
+  text: message.content,
+  time: message.created_at,
+  author: message.author,
+  parentId: message.parent_id,
+  mentions: message.mentions,
+  clientId,
+})
+
+export const toEditedEvent = (message: ChatMessage) => ({
+  id: message.id,
+  sessionId: message.session_id,
+  text: message.content,
+  editedAt: message.edited_at,
+  authorId: message.author_id,
+  mentions: message.mentions,
+})
+
+export const toDeletedEvent = (message: SessionMessage) => ({
+  id: message.id,
+  sessionId: message.session_id,
+  deletedBy: message.deleted_by,
+  deletedAt: message.deleted_at,
+})
+
+export const toReactionEvent = (
+  sessionId: string,
+  messageId: string,
+  userId: string,
+  emoji: string,
+  action: 'add' | 'remove',
+  reactions: ReactionSummary[]
+) => ({ sessionId, messageId, userId, emoji, action, reactions })
+
+export async function addSessionMessage(sessionId: string, userId: string, content: string, parentId?: string | null) {
+  await ensureSessionParticipant(userId, sessionId)
+
+  let threadId: string | null = null
+  if (parentId) {
+    const parent = await getMessage(sessionId, parentId)
+    if (parent.deleted_at) {
+      throw new HttpError(409, 'Deleted messages cannot be replied to')
+    }
+    // Threads are one level deep: replying to a reply joins the original thread.
+    threadId = parent.parent_id ?? parent.id
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('session_messages')
+    .insert({
+      session_id: sessionId,
+      author_id: userId,
+      content,
+      parent_id: threadId,
+    })
+    .select(MESSAGE_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to store message', formatPostgrestError(error))
+  }
+
+  const message = data as SessionMessage
+
+  // The message is stored at this point: failing the request would make the client's retry post it a second time, so
+  // a mention failure only costs the mentions.
+  try {
+    return await syncMentions(message)
+  } catch (err) {
+    const reason = (err as Error).message
+    logger.error('Failed to sync message mentions', { sessionId, messageId: message.id, message: reason })
+    const fallback: ChatMessage = {
+      ...message,
+      author: { id: message.author_id, name: null, avatar_url: null, role: null },
+      reactions: [],
+      mentions: [],
+      reply_count: 0,
+    }
+    return fallback
+  }
+}
+
+async function getMessage(sessionId: string, messageId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_messages')
+    .select(MESSAGE_SELECT)
+    .eq('session_id', sessionId)
+    .eq('id', messageId)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load message', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Message not found')
+  }
+
+  return data as SessionMessage
+}
+
+export async function editSessionMessage(userId: string, sessionId: string, messageId: string, content: string) {
+  const message = await getMessage(sessionId, messageId)
+
+  if (message.author_id !== userId) {
+    throw new HttpError(403, 'You can only edit your own messages')
+  }
+
+  if (message.deleted_at) {
+    throw new HttpError(409, 'Deleted messages cannot be edited')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('session_messages')
+    .update({ content, edited_at: new Date().toISOString() })
+    .eq('id', messageId)
+    .is('deleted_at', null)
+    .select(MESSAGE_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to edit message', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(409, 'Deleted messages cannot be edited')
+  }
+
+  return syncMentions(data as SessionMessage)
+}
+
+// Authors can delete their own messages and mentors anyone's. The content is wiped (think pasted secrets) and the
+// message's reactions and mentions go with it.
+export async function deleteSessionMessage(userId: string, sessionId: string, messageId: string) {
+  const [message, access] = await Promise.all([getMessage(sessionId, messageId), getSessionAccess(userId, sessionId)])
+
+  if (message.author_id !== userId) {
+    assertSessionAction(access, 'moderate')
+  }
+
+  if (message.deleted_at) {
+    return message
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('session_messages')
+    .update({ content: '', deleted_at: new Date().toISOString(), deleted_by: userId })
+    .eq('id', messageId)
+    .select(MESSAGE_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to delete message', formatPostgrestError(error))
+  }
+
+  const [{ error: reactionError }, { error: mentionError }] = await Promise.all([
+    supabaseAdmin.from('session_message_reactions').delete().eq('message_id', messageId),
+    supabaseAdmin.from('session_message_mentions').delete().eq('message_id', messageId),
+  ])
+
+  if (reactionError || mentionError) {
+    throw new HttpError(500, 'Unable to clean up deleted message', formatPostgrestError(reactionError ?? mentionError))
+  }
+
+  return data as SessionMessage
+}
+
+// One emoji as people see it: a pictograph with optional skin tone, variation selector, tag sequence (subdivision
+// flags) and ZWJ-joined parts, a flag made of two regional indicators, or a keycap such as 1️⃣.
+const EMOJI_PATTERN = new RegExp(
+  `^(?:${[
+    String.raw`\p{Regional_Indicator}{2}`,
+    String.raw`[0-9#*]\ufe0f?\u20e3`,
+    String.raw`\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\ufe0f|[\u{e0020}-\u{e007f}])*` +
+      String.raw`(?:\u200d\p{Extended_Pictographic}(?:\p{Emoji_Modifier}|\ufe0f)*)*`,
+  ].join('|')})$`,
+  'u'
+)
+
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+
+export function parseEmoji(value: unknown) {
+  const emoji = typeof value === 'string' ? value.trim() : ''
+  const valid =
+    emoji.length > 0 &&
+    emoji.length <= MAX_EMOJI_LENGTH &&
+    [...graphemes.segment(emoji)].length === 1 &&
+    EMOJI_PATTERN.test(emoji)
+
+  if (!valid) {
+    throw new HttpError(400, 'Reactions must be a single emoji')
+  }
+
+  return emoji
+}
+
+export async function addMessageReaction(userId: string, sessionId: string, messageId: string, emoji: string) {
+  const message = await getMessage(sessionId, messageId)
+
+  if (message.deleted_at) {
+    throw new HttpError(409, 'Deleted messages cannot be reacted to')
+  }
+
+  const { error } = await supabaseAdmin
+    .from('session_message_reactions')
+    .upsert(
+      { message_id: messageId, session_id: sessionId, user_id: userId, emoji },
+      { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    throw new HttpError(500, 'Unable to add reaction', formatPostgrestError(error))
+  }
+
+  return (await loadReactions([messageId])).get(messageId) ?? []
+}
+
+export async function removeMessageReaction(userId: string, sessionId: string, messageId: string, emoji: string) {
+  await getMessage(sessionId, messageId)
+
+  const { error } = await supabaseAdmin
+    .from('session_message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to remove reaction', formatPostgrestError(error))
+  }
+
+  return (await loadReactions([messageId])).get(messageId) ?? []
+}
+
+// Pages are keyed on (created_at, id) so messages sharing a timestamp are neither skipped nor repeated. Without a
+// cursor the latest messages are returned; results are always in chronological order.
+export async function listSessionMessages(sessionId: string, { limit, before, after, parentId }: MessagePage) {
+  if (before && after) {
+    throw new HttpError(400, 'Use either before or after, not both')
+  }
+
+  const cursorId = before ?? after
+  const cursor = cursorId ? await getMessage(sessionId, cursorId) : null
+  const ascending = Boolean(after)
+
+  let query = supabaseAdmin
+    .from('session_messages')
+    .select(MESSAGE_SELECT)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1)
+
+  if (parentId) {
+    query = query.eq('parent_id', parentId)
+  }
+
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt'
+    query = query.or(
+      `created_at.${op}."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.${op}.${cursor.id})`
+    )
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load messages', formatPostgrestError(error))
+  }
+
+  const rows = (data ?? []) as SessionMessage[]
+  const hasMore = rows.length > limit
+  const page = rows.slice(0, limit)
+  if (!ascending) page.reverse()
+
+  return {
+    messages: await enrichMessages(page),
+    hasMore,
+  }
+}
@@ -0,0 +1,73 @@
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { unifiedDiff } from '../utils/diff'
+import { replaceDocument } from './collab'
+import { formatPostgrestError } from './session'
+import type { Pagination } from './codeRuns'
+import type { SessionCodeSnapshot } from '../types'
+
+const SNAPSHOT_SUMMARY_SELECT = 'id,session_id,author_id,language,created_at'
+
+const SNAPSHOT_SELECT = `${SNAPSHOT_SUMMARY_SELECT},code`
+
+export type CodeSnapshotSummary = Omit<SessionCodeSnapshot, 'code'>
+
+export async function listCodeSnapshots(sessionId: string, { limit, offset }: Pagination) {
+  const { data, error, count } = await supabaseAdmin
+    .from('session_code_snapshots')
+    .select(SNAPSHOT_SUMMARY_SELECT, { count: 'exact' })
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load code history', formatPostgrestError(error))
+  }
+
+  return {
+    snapshots: (data ?? []) as CodeSnapshotSummary[],
+    total: count ?? 0,
+  }
+}
+
+export async function getCodeSnapshot(sessionId: string, snapshotId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_code_snapshots')
+    .select(SNAPSHOT_SELECT)
+    .eq('session_id', sessionId)
+    .eq('id', snapshotId)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load code snapshot', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Code snapshot not found')
+  }
+
+  return data as SessionCodeSnapshot
+}
+
+const withoutCode = ({ code: _code, ...summary }: SessionCodeSnapshot): CodeSnapshotSummary => summary
+
+export async function diffCodeSnapshots(sessionId: string, fromId: string, toId: string) {
+  const [from, to] = await Promise.all([getCodeSnapshot(sessionId, fromId), getCodeSnapshot(sessionId, toId)])
+  const diff = unifiedDiff(from.code, to.code, `${from.id}\t${from.created_at}`, `${to.id}\t${to.created_at}`)
+
+  return {
+    from: withoutCode(from),
+    to: withoutCode(to),
+    diff: diff.patch,
+    additions: diff.additions,
+    deletions: diff.deletions,
+  }
+}
+
+// Restoring never rewrites history: the old content becomes the live document and is saved as a new snapshot.
+export async function restoreCodeSnapshot(userId: string, sessionId: string, snapshotId: string) {
+  const snapshot = await getCodeSnapshot(sessionId, snapshotId)
+  const state = await replaceDocument(sessionId, userId, snapshot.code, snapshot.language)
+
+  return { snapshot, state }
+}
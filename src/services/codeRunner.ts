@@ -1,246 +1,444 @@
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import { spawn } from 'child_process'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import * as os from 'os'
-
-const execAsync = promisify(exec)
-
-interface ExecutionResult {
+import { env } from '../config/env'
+import { logger } from '../logger'
+import { acquireExecutionSlot, type ExecutionOwner } from './executionQueue'
+import { resolveLanguage, type LanguageContext } from './languages'
+
+export type ExecutionStatus =
+  | 'success'
+  | 'runtime_error'
+  | 'compile_error'
+  | 'timeout'
+  | 'memory_exceeded'
+  | 'output_limit_exceeded'
+  | 'killed'
+  | 'cancelled'
+  | 'unsupported'
+  | 'internal_error'
+
+export interface ExecutionResult {
+  status: ExecutionStatus
   output: string
   error: string | null
   executionTime: number
+  exitCode: number | null
+  signal: string | null
+}
+
+export type OutputStream = 'stdout' | 'stderr'
+
+export type ProgramInput = {
+  // Fed to the program's stdin (not the compiler's), which is closed afterwards so reads hit EOF.
+  stdin?: string
+  args?: string[]
+  // Wall-clock limit for this run; capped at the configured sandbox timeout.
+  timeoutMs?: number
+}
+
+export type ExecutionOptions = ProgramInput & {
+  // Receives program output as it is produced; compiler output is reported on the same channel.
+  onOutput?: (stream: OutputStream, chunk: string) => void
+  signal?: AbortSignal
+  // Who the run is charged to for the per-user and per-session quotas of the execution queue.
+  owner?: ExecutionOwner
+  onQueued?: (position: number) => void
+  onStart?: () => void
+}
+
+type BatchOptions = Omit<ExecutionOptions, keyof ProgramInput>
+
+type SandboxCommand = {
+  command: string
+  args: string[]
+  cwd: string
+  env?: Record<string, string>
+  onOutput?: ExecutionOptions['onOutput']
+  signal?: AbortSignal
+  stdin?: string
+  timeoutMs?: number
+}
+
+type SandboxOutcome = {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  signal: NodeJS.Signals | null
+  timedOut: boolean
+  outputExceeded: boolean
+  cancelled: boolean
+  timeoutMs: number
 }
 
-const TIMEOUT_MS = 10000
+const limits = env.codeRunner
+
+export const MAX_STDIN_BYTES = 256 * 1024
+export const MAX_ARGS = 32
+export const MAX_ARG_LENGTH = 1024
+
+const MEMORY_ERROR_PATTERNS = [
+  /JavaScript heap out of memory/i,
+  /\bMemoryError\b/,
+  /java\.lang\.OutOfMemoryError/,
+  /runtime: out of memory/,
+  /OutOfMemoryException/,
+  /Cannot allocate memory/i,
+]
+
+async function createWorkDir(): Promise<string> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-exec-'))
+  if (limits.uid !== undefined) {
+    await fs.chown(workDir, limits.uid, limits.gid ?? limits.uid)
+  }
+  return workDir
+}
 
-async function createTempFile(code: string, extension: string): Promise<string> {
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-exec-'))
-  const filePath = path.join(tempDir, `code${extension}`)
+async function writeSource(workDir: string, fileName: string, code: string): Promise<string> {
+  const filePath = path.join(workDir, fileName)
   await fs.writeFile(filePath, code, 'utf-8')
+  if (limits.uid !== undefined) {
+    await fs.chown(filePath, limits.uid, limits.gid ?? limits.uid)
+  }
   return filePath
 }
 
-async function cleanupTempFile(filePath: string): Promise<void> {
+async function cleanupWorkDir(workDir: string): Promise<void> {
   try {
-    const dir = path.dirname(filePath)
-    await fs.rm(dir, { recursive: true, force: true })
+    await fs.rm(workDir, { recursive: true, force: true })
   } catch (err) {
-    console.error('Failed to cleanup temp file:', err)
+    logger.error('Failed to cleanup code execution directory', { workDir, message: (err as Error).message })
   }
 }
 
-export async function executeCode(code: string, language: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  let filePath: string | null = null
+// The child only ever sees this environment; nothing from the API process (Supabase keys included) leaks in.
+const sandboxEnv = (workDir: string, extra?: Record<string, string>) => ({
+  PATH: limits.path,
+  HOME: workDir,
+  TMPDIR: workDir,
+  LANG: 'C.UTF-8',
+  ...extra,
+})
+
+// Runs only ever execute under a dedicated unprivileged uid: as the API's own user they could read its files and
+// signal its processes. Returns why execution is refused, or null when the sandbox can be used.
+const sandboxUnavailableReason = () => {
+  if (limits.uid === undefined) {
+    return 'Code execution is disabled: set CODE_RUNNER_UID to an unprivileged uid, or run the API as root'
+  }
+  if (limits.uid === 0 || limits.uid === process.getuid?.()) {
+    return 'Code execution is disabled: CODE_RUNNER_UID must be an unprivileged uid other than the API\'s own'
+  }
+  return null
+}
 
-  try {
-    switch (language.toLowerCase()) {
-      case 'javascript':
-        return await executeJavaScript(code)
+// Runs as init of the run's namespaces. It gives the run private, empty world-writable directories (so nothing it
+// writes outlives it, and other runs' work directories are out of reach), binds the run's own work directory back in
+// at the same path, reports on fd 3 that setup worked, then drops every capability and starts the program as its child.
+// Staying init means everything the program starts dies with the wrapper; the program's status becomes the wrapper's
+// exit code (128 + signal number when it was killed). The program runs as a background job only so the shell does not
+// print its own "Segmentation fault"-style notice into the program's stderr; the wrapper's messages go to /dev/null.
+const SANDBOX_WRAPPER = `
+work=$1; tmpfs_size=$2; shift 2
+exec 4>&2 5<&0 2>/dev/null
+for dir in /tmp /var/tmp /dev/shm /run/lock; do
+  [ -d "$dir" ] && { mount -t tmpfs -o "mode=1777,nosuid,nodev,size=$tmpfs_size" tmpfs "$dir" || exit 1; }
+done
+mkdir -p "$work" && mount --no-canonicalize --bind /proc/self/cwd "$work" && cd "$work" || exit 1
+echo ready >&3
+exec 3>&-
+setpriv --bounding-set=-all --inh-caps=-all --no-new-privs -- "$@" <&5 2>&4 4>&- 5<&- &
+wait $!
+`
+
+const buildLauncher = (command: SandboxCommand) => {
+  // A soft CPU limit below the hard one makes the kernel send SIGXCPU first, which we report as a timeout.
+  const rlimits = [
+    `--cpu=${limits.cpuSeconds}:${limits.cpuSeconds + 1}`,
+    `--data=${limits.memoryMb * 1024 * 1024}`,
+    `--fsize=${limits.maxFileBytes}`,
+    `--nproc=${limits.maxProcesses}`,
+    '--core=0',
+  ]
+
+  // Fresh user, pid and mount namespaces with their own /proc: the program cannot see host processes (or their
+  // environments). Inside, the run's uid is mapped to root only so the wrapper can mount; the program gets no
+  // capabilities.
+  const namespaces = [
+    '--map-root-user',
+    '--pid',
+    '--kill-child',
+    '--mount-proc',
+    ...(limits.disableNetwork ? ['--net'] : []),
+  ]
+  const argv = [
+    'unshare',
+    ...namespaces,
+    '--',
+    'sh',
+    '-c',
+    SANDBOX_WRAPPER,
+    'sandbox',
+    command.cwd,
+    `${limits.memoryMb}m`,
+    'prlimit',
+    ...rlimits,
+    '--',
+    command.command,
+    ...command.args,
+  ]
+
+  return { file: argv[0], args: argv.slice(1) }
+}
 
-      case 'typescript':
-        return await executeTypeScript(code)
+const SIGNALS_BY_NUMBER = new Map(
+  Object.entries(os.constants.signals).map(([name, number]) => [number, name as NodeJS.Signals])
+)
 
-      case 'python':
-        return await executePython(code)
+// The wrapper exits with the program's status, shell style: 128 + n means the program died from signal n.
+const decodeExitStatus = (code: number | null) => {
+  const signal = code !== null && code > 128 ? SIGNALS_BY_NUMBER.get(code - 128) : undefined
+  return signal ? { exitCode: null, signal } : { exitCode: code, signal: null }
+}
 
-      case 'java':
-        return await executeJava(code)
+function runSandboxed(command: SandboxCommand): Promise<SandboxOutcome> {
+  const { file, args } = buildLauncher(command)
+  const timeoutMs = Math.min(command.timeoutMs ?? limits.timeoutMs, limits.timeoutMs)
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      cwd: command.cwd,
+      env: sandboxEnv(command.cwd, command.env),
+      uid: limits.uid,
+      gid: limits.gid ?? limits.uid,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+    })
 
-      case 'csharp':
-      case 'c#':
-        return await executeCSharp(code)
+    // Programs that exit without reading their input would otherwise surface EPIPE here.
+    child.stdin?.on('error', () => undefined)
+    child.stdin?.end(command.stdin ?? '')
+
+    let stdout = ''
+    let stderr = ''
+    let outputBytes = 0
+    let timedOut = false
+    let outputExceeded = false
+    let cancelled = false
+
+    // Killing the launcher's group takes down the namespace's init, and with it every process the run started.
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL')
+      } catch {
+        child.kill('SIGKILL')
+      }
+    }
 
-      case 'go':
-        return await executeGo(code)
+    const timer = setTimeout(() => {
+      timedOut = true
+      killGroup()
+    }, timeoutMs)
 
-      default:
-        return {
-          output: '',
-          error: `Language "${language}" is not supported for execution`,
-          executionTime: Date.now() - startTime,
-        }
-    }
-  } catch (err: any) {
-    return {
-      output: '',
-      error: err.message || 'Execution failed',
-      executionTime: Date.now() - startTime,
+    const cancel = () => {
+      cancelled = true
+      killGroup()
     }
-  } finally {
-    if (filePath) {
-      await cleanupTempFile(filePath)
+    command.signal?.addEventListener('abort', cancel, { once: true })
+    if (command.signal?.aborted) cancel()
+
+    const collect = (stream: OutputStream) => (chunk: string) => {
+      if (outputExceeded) return
+      outputBytes += Buffer.byteLength(chunk)
+      if (outputBytes > limits.maxOutputBytes) {
+        outputExceeded = true
+        killGroup()
+        return
+      }
+      if (stream === 'stdout') stdout += chunk
+      else stderr += chunk
+      command.onOutput?.(stream, chunk)
     }
-  }
-}
 
-async function executeJavaScript(code: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  const filePath = await createTempFile(code, '.js')
+    // Decoding on the stream keeps multi-byte characters intact across chunk boundaries.
+    child.stdout?.setEncoding('utf-8').on('data', collect('stdout'))
+    child.stderr?.setEncoding('utf-8').on('data', collect('stderr'))
 
-  try {
-    const { stdout, stderr } = await execAsync(`node "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
-    })
-
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
+    const settle = () => {
+      clearTimeout(timer)
+      command.signal?.removeEventListener('abort', cancel)
     }
-  } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
-  } finally {
-    await cleanupTempFile(filePath)
-  }
-}
 
-async function executeTypeScript(code: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  const filePath = await createTempFile(code, '.ts')
+    child.on('error', (err) => {
+      settle()
+      reject(err)
+    })
 
-  try {
-    const { stdout, stderr } = await execAsync(`npx ts-node "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
+    // Until the wrapper reports on fd 3, anything on stderr comes from the launcher rather than the program.
+    let ready = false
+    child.stdio[3]?.on('data', () => {
+      ready = true
     })
 
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
-    }
-  } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
-  } finally {
-    await cleanupTempFile(filePath)
-  }
-}
+    child.on('close', (code, launcherSignal) => {
+      settle()
 
-async function executePython(code: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  const filePath = await createTempFile(code, '.py')
+      if (!ready && !timedOut && !cancelled && !outputExceeded) {
+        logger.error('Execution sandbox setup failed', { exitCode: code, signal: launcherSignal, stderr })
+        reject(new Error('Unable to set up the execution sandbox'))
+        return
+      }
 
-  try {
-    const { stdout, stderr } = await execAsync(`python "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
+      // A launcher killed outright (by us, on timeout or cancel) has no program status to decode.
+      const { exitCode, signal } = launcherSignal ? { exitCode: null, signal: launcherSignal } : decodeExitStatus(code)
+      resolve({ stdout, stderr, exitCode, signal, timedOut, outputExceeded, cancelled, timeoutMs })
     })
+  })
+}
 
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
-    }
-  } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
-  } finally {
-    await cleanupTempFile(filePath)
-  }
+const classify = (outcome: SandboxOutcome, phase: 'compile' | 'run'): ExecutionStatus => {
+  if (outcome.cancelled) return 'cancelled'
+  if (outcome.outputExceeded) return 'output_limit_exceeded'
+  // SIGXCPU is the soft CPU limit; SIGKILL the hard one, for programs that ignore SIGXCPU.
+  if (outcome.timedOut || outcome.signal === 'SIGXCPU' || outcome.signal === 'SIGKILL') return 'timeout'
+  if (MEMORY_ERROR_PATTERNS.some((pattern) => pattern.test(outcome.stderr))) return 'memory_exceeded'
+  if (outcome.signal) return 'killed'
+  if (outcome.exitCode !== 0) return phase === 'compile' ? 'compile_error' : 'runtime_error'
+  return 'success'
 }
 
-async function executeJava(code: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'java-exec-'))
-  
-  const className = extractJavaClassName(code) || 'Main'
-  const filePath = path.join(tempDir, `${className}.java`)
-  await fs.writeFile(filePath, code, 'utf-8')
+const describeFailure = (status: ExecutionStatus, outcome: SandboxOutcome) => {
+  switch (status) {
+    case 'timeout':
+      return outcome.timedOut
+        ? `Execution timed out after ${outcome.timeoutMs}ms`
+        : `CPU time limit of ${limits.cpuSeconds}s exceeded`
+    case 'memory_exceeded':
+      return `Memory limit of ${limits.memoryMb}MB exceeded`
+    case 'output_limit_exceeded':
+      return `Output limit of ${limits.maxOutputBytes} bytes exceeded`
+    case 'killed':
+      return `Process was killed (${outcome.signal})`
+    case 'cancelled':
+      return 'Execution was cancelled'
+    default:
+      return null
+  }
+}
 
-  try {
-    await execAsync(`javac "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
-    })
+const toResult = (outcome: SandboxOutcome, phase: 'compile' | 'run', startTime: number): ExecutionResult => {
+  const status = classify(outcome, phase)
+  const stderr = outcome.stderr.trim()
+  const reason = describeFailure(status, outcome)
+
+  return {
+    status,
+    output: outcome.stdout.trim(),
+    error: [stderr, reason].filter(Boolean).join('\n') || null,
+    executionTime: Date.now() - startTime,
+    exitCode: outcome.exitCode,
+    signal: outcome.signal,
+  }
+}
 
-    const { stdout, stderr } = await execAsync(`java -cp "${tempDir}" ${className}`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
-    })
+const failure = (status: ExecutionStatus, error: string, startTime: number): ExecutionResult => ({
+  status,
+  output: '',
+  error,
+  executionTime: Date.now() - startTime,
+  exitCode: null,
+  signal: null,
+})
+
+export async function executeCode(
+  code: string,
+  language: string,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> {
+  const { stdin, args, timeoutMs, ...batchOptions } = options
+  const [result] = await executeCodeBatch(code, language, [{ stdin, args, timeoutMs }], batchOptions)
+  return result
+}
 
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
-    }
-  } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
-  } finally {
-    await fs.rm(tempDir, { recursive: true, force: true })
+// Compiles once, then runs the program once per input. Used for grading, where a compile per test case would
+// multiply the cost of every submission.
+export async function executeCodeBatch(
+  code: string,
+  language: string,
+  inputs: ProgramInput[],
+  options: BatchOptions = {}
+): Promise<ExecutionResult[]> {
+  const definition = resolveLanguage(language)
+
+  if (!definition) {
+    const result = failure('unsupported', `Language "${language}" is not supported for execution`, Date.now())
+    return inputs.map(() => result)
   }
-}
 
-async function executeCSharp(code: string): Promise<ExecutionResult> {
-  const startTime = Date.now()
-  const filePath = await createTempFile(code, '.cs')
+  const unavailable = sandboxUnavailableReason()
+  if (unavailable) {
+    const result = failure('internal_error', unavailable, Date.now())
+    return inputs.map(() => result)
+  }
 
-  try {
-    const { stdout, stderr } = await execAsync(`dotnet script "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
-    })
+  const { onOutput, signal, owner } = options
+  const release = await acquireExecutionSlot(owner, { signal, onQueued: options.onQueued })
 
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
-    }
-  } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
-  } finally {
-    await cleanupTempFile(filePath)
+  if (!release) {
+    const result = failure('cancelled', 'Execution was cancelled', Date.now())
+    return inputs.map(() => result)
   }
-}
 
-async function executeGo(code: string): Promise<ExecutionResult> {
   const startTime = Date.now()
-  const filePath = await createTempFile(code, '.go')
+  let workDir: string | null = null
 
   try {
-    const { stdout, stderr } = await execAsync(`go run "${filePath}"`, {
-      timeout: TIMEOUT_MS,
-      maxBuffer: 1024 * 1024,
-    })
+    options.onStart?.()
+    workDir = await createWorkDir()
+    const sourcePath = await writeSource(workDir, definition.fileName(code), code)
+    const baseCtx: LanguageContext = { workDir, sourcePath, memoryMb: limits.memoryMb, args: [] }
+
+    if (definition.compile) {
+      const compiled = await runSandboxed({ ...definition.compile(baseCtx), cwd: workDir, onOutput, signal })
+      if (classify(compiled, 'compile') !== 'success') {
+        const result = toResult(compiled, 'compile', startTime)
+        return inputs.map(() => result)
+      }
+    }
 
-    return {
-      output: stdout.trim(),
-      error: stderr.trim() || null,
-      executionTime: Date.now() - startTime,
+    const compileTime = Date.now() - startTime
+    const results: ExecutionResult[] = []
+
+    for (const input of inputs) {
+      // Each result's executionTime includes the shared compile step.
+      const runStart = Date.now() - compileTime
+
+      if (signal?.aborted) {
+        results.push(failure('cancelled', 'Execution was cancelled', runStart))
+        continue
+      }
+
+      const ctx = { ...baseCtx, args: input.args ?? [] }
+      const outcome = await runSandboxed({
+        ...definition.run(ctx),
+        cwd: workDir,
+        onOutput,
+        signal,
+        stdin: input.stdin,
+        timeoutMs: input.timeoutMs,
+      })
+      results.push(toResult(outcome, 'run', runStart))
     }
+
+    return results
   } catch (err: any) {
-    return {
-      output: err.stdout?.trim() || '',
-      error: err.stderr?.trim() || err.message,
-      executionTime: Date.now() - startTime,
-    }
+    logger.error('Code execution failed', { language: definition.id, message: err?.message })
+    return inputs.map(() => failure('internal_error', err?.message || 'Execution failed', startTime))
   } finally {
-    await cleanupTempFile(filePath)
+    if (workDir) {
+      await cleanupWorkDir(workDir)
+    }
+    release()
   }
 }
-
-function extractJavaClassName(code: string): string | null {
-  const match = code.match(/public\s+class\s+(\w+)/)
-  return match ? match[1] : null
-}
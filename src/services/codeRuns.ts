@@ -0,0 +1,69 @@
+import { createHash } from 'crypto'
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { ensureSessionParticipant, formatPostgrestError } from './session'
+import type { ExecutionResult } from './codeRunner'
+import type { SessionCodeRun } from '../types'
+
+const CODE_RUN_SELECT = 'id,session_id,author_id,language,code_hash,status,output,error,exit_code,execution_time_ms,created_at'
+
+export type CodeRunRecordInput = {
+  id: string
+  sessionId: string
+  authorId: string
+  language: string
+  code: string
+  result: ExecutionResult
+}
+
+export type Pagination = {
+  limit: number
+  offset: number
+}
+
+export const hashCode = (code: string) => createHash('sha256').update(code, 'utf-8').digest('hex')
+
+export async function recordCodeRun(input: CodeRunRecordInput) {
+  const { data, error } = await supabaseAdmin
+    .from('session_code_runs')
+    .insert({
+      id: input.id,
+      session_id: input.sessionId,
+      author_id: input.authorId,
+      language: input.language,
+      code_hash: hashCode(input.code),
+      status: input.result.status,
+      output: input.result.output,
+      error: input.result.error,
+      exit_code: input.result.exitCode,
+      execution_time_ms: input.result.executionTime,
+    })
+    .select(CODE_RUN_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to store code run', formatPostgrestError(error))
+  }
+
+  return data as SessionCodeRun
+}
+
+export async function listCodeRuns(userId: string, sessionId: string, { limit, offset }: Pagination) {
+  await ensureSessionParticipant(userId, sessionId)
+
+  const { data, error, count } = await supabaseAdmin
+    .from('session_code_runs')
+    .select(CODE_RUN_SELECT, { count: 'exact' })
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load code runs', formatPostgrestError(error))
+  }
+
+  return {
+    runs: (data ?? []) as SessionCodeRun[],
+    total: count ?? 0,
+  }
+}
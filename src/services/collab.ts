@@ -0,0 +1,252 @@
+import { env } from '../config/env'
+import { emitToSession, hasSessionConnections } from '../lib/socket'
+import { logger } from '../logger'
+import { HttpError } from '../utils/httpError'
+import { applyOperation, transform, type TextOperation } from '../utils/textOperation'
+import { getLatestCodeSnapshot, insertCodeSnapshot } from './session'
+
+type CollabDocument = {
+  sessionId: string
+  content: string
+  language: string
+  revision: number
+  // Operations applied since `historyStart`, kept so late operations can be transformed onto the current revision.
+  history: TextOperation[]
+  historyStart: number
+  dirty: boolean
+  lastAuthorId: string | null
+  // Write-behind state: edits are broadcast straight away and reach the database through `persistDocument`.
+  savedRevision: number
+  dirtySince: number | null
+  saveTimer: NodeJS.Timeout | null
+  saving: Promise<boolean> | null
+  idleTimer: NodeJS.Timeout | null
+}
+
+export type DocumentState = {
+  content: string
+  language: string
+  revision: number
+  savedRevision: number
+}
+
+const HISTORY_LIMIT = 1000
+const MAX_DOCUMENT_LENGTH = 512 * 1024
+
+const { snapshotDebounceMs, snapshotMaxWaitMs, documentIdleMs } = env.collab
+
+const documents = new Map<string, Promise<CollabDocument>>()
+
+const loadDocument = async (sessionId: string): Promise<CollabDocument> => {
+  const snapshot = await getLatestCodeSnapshot(sessionId)
+
+  return {
+    sessionId,
+    content: snapshot?.code ?? '',
+    language: snapshot?.language ?? 'javascript',
+    revision: 0,
+    history: [],
+    historyStart: 0,
+    dirty: false,
+    lastAuthorId: snapshot?.author_id ?? null,
+    savedRevision: 0,
+    dirtySince: null,
+    saveTimer: null,
+    saving: null,
+    idleTimer: null,
+  }
+}
+
+// Documents loaded through REST alone never see a socket leave the room, so every access re-arms an idle timer that
+// releases the document once nobody is connected and it has not been used for `documentIdleMs`.
+const scheduleIdleRelease = (document: CollabDocument) => {
+  if (document.idleTimer) clearTimeout(document.idleTimer)
+  document.idleTimer = setTimeout(() => {
+    document.idleTimer = null
+    if (hasSessionConnections(document.sessionId)) {
+      scheduleIdleRelease(document)
+      return
+    }
+    const { sessionId } = document
+    releaseDocument(sessionId).catch((err) =>
+      logger.error('Failed to release idle document', { sessionId, message: (err as Error).message })
+    )
+  }, documentIdleMs)
+  document.idleTimer.unref()
+}
+
+// Loads are shared so concurrent joins never create two diverging copies of the same session document.
+const getDocument = (sessionId: string) => {
+  let document = documents.get(sessionId)
+  if (!document) {
+    document = loadDocument(sessionId)
+    documents.set(sessionId, document)
+    document.catch(() => documents.delete(sessionId))
+  }
+  document.then(scheduleIdleRelease, () => undefined)
+  return document
+}
+
+const toState = (document: CollabDocument): DocumentState => ({
+  content: document.content,
+  language: document.language,
+  revision: document.revision,
+  savedRevision: document.savedRevision,
+})
+
+// Debounced save: waits for a pause in editing, but never lets a document stay unsaved longer than the max wait.
+const scheduleSave = (document: CollabDocument, delayMs = snapshotDebounceMs) => {
+  const now = Date.now()
+  document.dirtySince ??= now
+
+  if (document.saveTimer) clearTimeout(document.saveTimer)
+  const delay = Math.max(0, Math.min(delayMs, document.dirtySince + snapshotMaxWaitMs - now))
+  document.saveTimer = setTimeout(() => {
+    document.saveTimer = null
+    void persistDocument(document.sessionId)
+  }, delay)
+  document.saveTimer.unref()
+}
+
+const markDirty = (document: CollabDocument, authorId: string) => {
+  document.dirty = true
+  document.lastAuthorId = authorId
+  scheduleSave(document)
+}
+
+const recordOperation = (document: CollabDocument, op: TextOperation, authorId: string) => {
+  document.history.push(op)
+  document.revision += 1
+  markDirty(document, authorId)
+
+  if (document.history.length > HISTORY_LIMIT) {
+    const overflow = document.history.length - HISTORY_LIMIT
+    document.history.splice(0, overflow)
+    document.historyStart += overflow
+  }
+}
+
+export async function getDocumentState(sessionId: string) {
+  return toState(await getDocument(sessionId))
+}
+
+// Rebases a client operation made against `revision` onto the current document and applies it.
+export async function applyClientOperation(sessionId: string, authorId: string, revision: number, op: TextOperation) {
+  const document = await getDocument(sessionId)
+
+  if (!Number.isInteger(revision) || revision > document.revision || revision < 0) {
+    throw new HttpError(409, 'Unknown document revision, resync required')
+  }
+
+  if (revision < document.historyStart) {
+    throw new HttpError(409, 'Document revision is too old, resync required')
+  }
+
+  let rebased = op
+  document.history.slice(revision - document.historyStart).forEach((concurrent) => {
+    rebased = transform(rebased, concurrent)[0]
+  })
+
+  const content = applyOperation(document.content, rebased)
+  if (content.length > MAX_DOCUMENT_LENGTH) {
+    throw new HttpError(413, 'Document is too large')
+  }
+
+  document.content = content
+  recordOperation(document, rebased, authorId)
+
+  return { revision: document.revision, op: rebased }
+}
+
+// Full-document replacement (the legacy `code:update` path); expressed as an operation so the history stays usable.
+export async function replaceDocument(sessionId: string, authorId: string, content: string, language?: string) {
+  const document = await getDocument(sessionId)
+
+  if (content.length > MAX_DOCUMENT_LENGTH) {
+    throw new HttpError(413, 'Document is too large')
+  }
+
+  const op: TextOperation = []
+  if (document.content.length > 0) op.push(-document.content.length)
+  if (content.length > 0) op.push(content)
+
+  if (language) document.language = language
+  document.content = content
+
+  if (op.length > 0) {
+    recordOperation(document, op, authorId)
+  } else {
+    markDirty(document, authorId)
+  }
+
+  return toState(document)
+}
+
+async function saveDocument(document: CollabDocument, authorId: string) {
+  const { sessionId, revision } = document
+
+  try {
+    const snapshot = await insertCodeSnapshot(sessionId, authorId, document.content, document.language)
+    document.savedRevision = revision
+    emitToSession(sessionId, 'code:saved', { sessionId, revision, snapshotId: snapshot.id, savedAt: snapshot.created_at })
+    return true
+  } catch (err) {
+    const message = (err as Error).message
+    logger.error('Failed to persist collaborative document', { sessionId, revision, message })
+
+    // Keep the edits buffered and retry later; the room keeps editing in the meantime.
+    document.dirty = true
+    scheduleSave(document, snapshotMaxWaitMs)
+    emitToSession(sessionId, 'code:save-failed', { sessionId, revision, message: 'Unable to save the latest code' })
+    return false
+  }
+}
+
+// Writes the buffered state to `session_code_snapshots` if it changed; resolves to false when the write failed.
+export async function persistDocument(sessionId: string): Promise<boolean> {
+  const pending = documents.get(sessionId)
+  if (!pending) return true
+
+  const document = await pending
+
+  // One write at a time per document; a save requested mid-write picks up whatever changed after it.
+  while (document.saving) {
+    await document.saving
+  }
+
+  if (!document.dirty || !document.lastAuthorId) return true
+
+  if (document.saveTimer) clearTimeout(document.saveTimer)
+  document.saveTimer = null
+  document.dirtySince = null
+  document.dirty = false
+
+  const saving = saveDocument(document, document.lastAuthorId)
+  document.saving = saving
+  try {
+    return await saving
+  } finally {
+    document.saving = null
+  }
+}
+
+// Called when the last participant leaves the room, or when the document sits idle: write the final state and free
+// the memory. A document whose write failed stays loaded and is tried again after another idle period.
+export async function releaseDocument(sessionId: string) {
+  await persistDocument(sessionId)
+  const pending = documents.get(sessionId)
+  if (!pending) return
+
+  const document = await pending
+  if (!document.dirty && !document.saving) {
+    if (document.saveTimer) clearTimeout(document.saveTimer)
+    if (document.idleTimer) clearTimeout(document.idleTimer)
+    documents.delete(sessionId)
+  } else {
+    scheduleIdleRelease(document)
+  }
+}
+
+export async function persistAllDocuments() {
+  await Promise.all([...documents.keys()].map((sessionId) => persistDocument(sessionId)))
+}
@@ -0,0 +1,198 @@
+import { env } from '../config/env'
+import { HttpError } from '../utils/httpError'
+
+export type ExecutionOwner = {
+  userId: string
+  sessionId?: string | null
+}
+
+export type SlotOptions = {
+  signal?: AbortSignal
+  // Called with the 1-based queue position whenever the job has to wait or moves up.
+  onQueued?: (position: number) => void
+}
+
+export type ExecutionQueueStats = {
+  capacity: number
+  running: number
+  queued: number
+  maxQueue: number
+  activeUsers: number
+  totals: {
+    admitted: number
+    completed: number
+    cancelledWhileQueued: number
+    rejected: number
+  }
+  averageWaitMs: number
+}
+
+type Waiter = {
+  owner?: ExecutionOwner
+  enqueuedAt: number
+  onQueued?: (position: number) => void
+  start: () => void
+}
+
+const QUOTA_WINDOW_MS = 60 * 1000
+
+const config = env.codeRunner.queue
+
+const waiting: Waiter[] = []
+const inFlightByUser = new Map<string, number>()
+const recentRunsBySession = new Map<string, number[]>()
+let running = 0
+
+const totals = {
+  admitted: 0,
+  completed: 0,
+  cancelledWhileQueued: 0,
+  rejected: 0,
+}
+let totalWaitMs = 0
+let startedFromQueue = 0
+
+const reject = (status: number, message: string, details?: Record<string, unknown>) => {
+  totals.rejected += 1
+  return new HttpError(status, message, details)
+}
+
+const adjustUser = (owner: ExecutionOwner | undefined, delta: number) => {
+  if (!owner) return
+  const next = (inFlightByUser.get(owner.userId) ?? 0) + delta
+  if (next > 0) inFlightByUser.set(owner.userId, next)
+  else inFlightByUser.delete(owner.userId)
+}
+
+const recentSessionRuns = (sessionId: string, now: number) => {
+  const recent = (recentRunsBySession.get(sessionId) ?? []).filter((time) => now - time < QUOTA_WINDOW_MS)
+  if (recent.length > 0) recentRunsBySession.set(sessionId, recent)
+  else recentRunsBySession.delete(sessionId)
+  return recent
+}
+
+const admit = (owner?: ExecutionOwner) => {
+  const now = Date.now()
+
+  if (owner?.sessionId) {
+    const recent = recentSessionRuns(owner.sessionId, now)
+    if (recent.length >= config.sessionRunsPerMinute) {
+      throw reject(429, 'This session has reached its run quota, try again shortly', {
+        retryAfterMs: QUOTA_WINDOW_MS - (now - recent[0]),
+      })
+    }
+  }
+
+  if (owner && (inFlightByUser.get(owner.userId) ?? 0) >= config.perUserConcurrency) {
+    throw reject(429, `You can have at most ${config.perUserConcurrency} runs in progress at a time`)
+  }
+
+  if (running >= config.concurrency && waiting.length >= config.maxQueue) {
+    throw reject(503, 'The execution queue is full, try again shortly')
+  }
+
+  if (owner?.sessionId) {
+    recentRunsBySession.set(owner.sessionId, [...recentSessionRuns(owner.sessionId, now), now])
+  }
+  adjustUser(owner, 1)
+  totals.admitted += 1
+  return now
+}
+
+// A run that is cancelled before it starts never happened, so it gives back its place in the session's quota.
+const refundSessionRun = (owner: ExecutionOwner | undefined, admittedAt: number) => {
+  if (!owner?.sessionId) return
+  const recent = recentRunsBySession.get(owner.sessionId) ?? []
+  const index = recent.indexOf(admittedAt)
+  if (index === -1) return
+  const remaining = [...recent.slice(0, index), ...recent.slice(index + 1)]
+  if (remaining.length > 0) recentRunsBySession.set(owner.sessionId, remaining)
+  else recentRunsBySession.delete(owner.sessionId)
+}
+
+const cancelQueued = (owner: ExecutionOwner | undefined, admittedAt: number) => {
+  totals.cancelledWhileQueued += 1
+  adjustUser(owner, -1)
+  refundSessionRun(owner, admittedAt)
+}
+
+const notifyPositions = () => {
+  waiting.forEach((waiter, index) => waiter.onQueued?.(index + 1))
+}
+
+const dispatch = () => {
+  while (running < config.concurrency && waiting.length > 0) {
+    const next = waiting.shift()!
+    running += 1
+    totalWaitMs += Date.now() - next.enqueuedAt
+    startedFromQueue += 1
+    next.start()
+  }
+  notifyPositions()
+}
+
+const createRelease = (owner?: ExecutionOwner) => {
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    running -= 1
+    totals.completed += 1
+    adjustUser(owner, -1)
+    dispatch()
+  }
+}
+
+// Admits a job into the bounded worker pool and waits for a free slot (FIFO). Throws an HttpError when a quota is
+// exceeded; resolves to `null` (refunding the session quota) if the signal aborts while queued, otherwise to a release
+// function to call when done.
+export async function acquireExecutionSlot(owner: ExecutionOwner | undefined, options: SlotOptions = {}) {
+  const admittedAt = admit(owner)
+
+  if (running < config.concurrency && waiting.length === 0) {
+    running += 1
+    return createRelease(owner)
+  }
+
+  return new Promise<(() => void) | null>((resolve) => {
+    const onAbort = () => {
+      const index = waiting.indexOf(waiter)
+      if (index === -1) return
+      waiting.splice(index, 1)
+      cancelQueued(owner, admittedAt)
+      notifyPositions()
+      resolve(null)
+    }
+
+    const waiter: Waiter = {
+      owner,
+      enqueuedAt: Date.now(),
+      onQueued: options.onQueued,
+      start: () => {
+        options.signal?.removeEventListener('abort', onAbort)
+        resolve(createRelease(owner))
+      },
+    }
+
+    if (options.signal?.aborted) {
+      cancelQueued(owner, admittedAt)
+      return resolve(null)
+    }
+
+    waiting.push(waiter)
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+    options.onQueued?.(waiting.length)
+  })
+}
+
+export function getExecutionQueueStats(): ExecutionQueueStats {
+  return {
+    capacity: config.concurrency,
+    running,
+    queued: waiting.length,
+    maxQueue: config.maxQueue,
+    activeUsers: inFlightByUser.size,
+    totals: { ...totals },
+    averageWaitMs: startedFromQueue > 0 ? Math.round(totalWaitMs / startedFromQueue) : 0,
+  }
+}
@@ -0,0 +1,264 @@
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { matchesWholeRegex } from '../utils/regexMatch'
+import { executeCodeBatch, type ExecutionResult } from './codeRunner'
+import { resolveLanguage } from './languages'
+import { ensureSessionMentor, ensureSessionParticipant, formatPostgrestError, isModeratorRole } from './session'
+import type {
+  SessionSubmission,
+  SessionTestCase,
+  TestCaseResult,
+  TestComparisonMode,
+  TestVerdict,
+} from '../types'
+
+const TEST_CASE_SELECT = 'id,session_id,created_by,name,input,expected_output,comparison,time_limit_ms,hidden,position,created_at'
+
+const SUBMISSION_SELECT = 'id,session_id,author_id,language,code,score,passed_count,total_count,results,created_at'
+
+export type TestCaseCreateInput = {
+  name?: string | null
+  input?: string
+  expected_output: string
+  comparison?: TestComparisonMode
+  time_limit_ms?: number
+  hidden?: boolean
+  position?: number
+}
+
+export type TestCaseUpdateInput = Partial<TestCaseCreateInput>
+
+const normalizeNewlines = (value: string) => value.replace(/\r\n?/g, '\n')
+
+const trimLines = (value: string) =>
+  normalizeNewlines(value)
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim()
+
+// Runner output is already trimmed at both ends, so `exact` only forgives surrounding whitespace and line endings;
+// `trimmed` also ignores trailing whitespace on every line; `regex` must match the whole output.
+export async function matchesExpected(output: string, expected: string, mode: TestComparisonMode) {
+  switch (mode) {
+    case 'exact':
+      return normalizeNewlines(output) === normalizeNewlines(expected).trim()
+    case 'trimmed':
+      return trimLines(output) === trimLines(expected)
+    case 'regex':
+      return matchesWholeRegex(expected, normalizeNewlines(output))
+  }
+}
+
+const toVerdict = async (result: ExecutionResult, testCase: SessionTestCase): Promise<TestVerdict> => {
+  switch (result.status) {
+    case 'success':
+      return (await matchesExpected(result.output, testCase.expected_output, testCase.comparison))
+        ? 'pass'
+        : 'wrong_answer'
+    case 'compile_error':
+      return 'compile_error'
+    case 'timeout':
+      return 'timeout'
+    default:
+      return 'runtime_error'
+  }
+}
+
+const redactHidden = (testCase: SessionTestCase) =>
+  testCase.hidden ? { ...testCase, input: null, expected_output: null } : testCase
+
+async function loadTestCases(sessionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_test_cases')
+    .select(TEST_CASE_SELECT)
+    .eq('session_id', sessionId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load test cases', formatPostgrestError(error))
+  }
+
+  return (data ?? []) as SessionTestCase[]
+}
+
+export async function listTestCases(userId: string, sessionId: string) {
+  const participant = await ensureSessionParticipant(userId, sessionId)
+  const testCases = await loadTestCases(sessionId)
+
+  return isModeratorRole(participant.role) ? testCases : testCases.map(redactHidden)
+}
+
+export async function createTestCase(mentorId: string, sessionId: string, input: TestCaseCreateInput) {
+  await ensureSessionMentor(mentorId, sessionId)
+
+  const { data, error } = await supabaseAdmin
+    .from('session_test_cases')
+    .insert({
+      session_id: sessionId,
+      created_by: mentorId,
+      name: input.name ?? null,
+      input: input.input ?? '',
+      expected_output: input.expected_output,
+      comparison: input.comparison ?? 'trimmed',
+      time_limit_ms: input.time_limit_ms ?? 2000,
+      hidden: input.hidden ?? false,
+      position: input.position ?? 0,
+    })
+    .select(TEST_CASE_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to create test case', formatPostgrestError(error))
+  }
+
+  return data as SessionTestCase
+}
+
+export async function updateTestCase(
+  mentorId: string,
+  sessionId: string,
+  testCaseId: string,
+  updates: TestCaseUpdateInput
+) {
+  await ensureSessionMentor(mentorId, sessionId)
+
+  const patch: Record<string, unknown> = {}
+  if (updates.name !== undefined) patch.name = updates.name
+  if (updates.input !== undefined) patch.input = updates.input
+  if (updates.expected_output !== undefined) patch.expected_output = updates.expected_output
+  if (updates.comparison !== undefined) patch.comparison = updates.comparison
+  if (updates.time_limit_ms !== undefined) patch.time_limit_ms = updates.time_limit_ms
+  if (updates.hidden !== undefined) patch.hidden = updates.hidden
+  if (updates.position !== undefined) patch.position = updates.position
+
+  if (Object.keys(patch).length === 0) {
+    throw new HttpError(400, 'No updates were provided')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('session_test_cases')
+    .update(patch)
+    .eq('id', testCaseId)
+    .eq('session_id', sessionId)
+    .select(TEST_CASE_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to update test case', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Test case not found')
+  }
+
+  return data as SessionTestCase
+}
+
+export async function deleteTestCase(mentorId: string, sessionId: string, testCaseId: string) {
+  await ensureSessionMentor(mentorId, sessionId)
+
+  const { data, error } = await supabaseAdmin
+    .from('session_test_cases')
+    .delete()
+    .eq('id', testCaseId)
+    .eq('session_id', sessionId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to delete test case', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Test case not found')
+  }
+
+  return true
+}
+
+export async function gradeSubmission(userId: string, sessionId: string, code: string, language: string) {
+  await ensureSessionParticipant(userId, sessionId)
+
+  const definition = resolveLanguage(language)
+  if (!definition) {
+    throw new HttpError(400, `Language "${language}" is not supported for execution`)
+  }
+
+  const testCases = await loadTestCases(sessionId)
+  if (testCases.length === 0) {
+    throw new HttpError(400, 'This session has no test cases to grade against')
+  }
+
+  const executions = await executeCodeBatch(
+    code,
+    definition.id,
+    testCases.map((testCase) => ({ stdin: testCase.input, timeoutMs: testCase.time_limit_ms })),
+    { owner: { userId, sessionId } }
+  )
+
+  const results: TestCaseResult[] = []
+  for (const [index, testCase] of testCases.entries()) {
+    const execution = executions[index]
+    const result: TestCaseResult = {
+      test_case_id: testCase.id,
+      verdict: await toVerdict(execution, testCase),
+      execution_time: execution.executionTime,
+      hidden: testCase.hidden,
+    }
+
+    if (!testCase.hidden) {
+      result.output = execution.output
+      result.error = execution.error
+    }
+
+    results.push(result)
+  }
+
+  const passedCount = results.filter((result) => result.verdict === 'pass').length
+
+  const { data, error } = await supabaseAdmin
+    .from('session_submissions')
+    .insert({
+      session_id: sessionId,
+      author_id: userId,
+      language: definition.id,
+      code,
+      score: Math.round((passedCount / results.length) * 100),
+      passed_count: passedCount,
+      total_count: results.length,
+      results,
+    })
+    .select(SUBMISSION_SELECT)
+    .single()
+
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to store submission', formatPostgrestError(error))
+  }
+
+  return data as SessionSubmission
+}
+
+export async function listSubmissions(userId: string, sessionId: string) {
+  const participant = await ensureSessionParticipant(userId, sessionId)
+
+  let query = supabaseAdmin
+    .from('session_submissions')
+    .select(SUBMISSION_SELECT)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+
+  // Students only see their own attempts; mentors review everyone's.
+  if (!isModeratorRole(participant.role)) {
+    query = query.eq('author_id', userId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load submissions', formatPostgrestError(error))
+  }
+
+  return (data ?? []) as SessionSubmission[]
+}
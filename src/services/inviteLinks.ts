@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { env } from '../config/env'
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { addSessionParticipant, formatPostgrestError } from './session'
+import type { AuthedUser } from '../types'
+
+export type InviteRole = 'student' | 'co-mentor'
+
+export type InviteTokenPayload = {
+  sid: string
+  role: InviteRole
+  email?: string
+  // Expiry, in seconds since the epoch.
+  exp: number
+}
+
+export type InviteLinkInput = {
+  role: InviteRole
+  email?: string
+  expiresInMinutes: number
+}
+
+// Tokens are `<base64url JSON payload>.<base64url HMAC-SHA256 of that payload>`. Everything needed to join is in the
+// token itself, so verifying one needs no database lookup.
+const signingSecret = () => {
+  if (!env.inviteLinks.secret) {
+    throw new HttpError(503, 'Invite links are not configured on this server')
+  }
+  return env.inviteLinks.secret
+}
+
+const sign = (encodedPayload: string) =>
+  createHmac('sha256', signingSecret()).update(encodedPayload).digest('base64url')
+
+export function signInviteToken(payload: InviteTokenPayload) {
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url')
+  return `${encodedPayload}.${sign(encodedPayload)}`
+}
+
+export function verifyInviteToken(token: string, now = new Date()): InviteTokenPayload {
+  const [encodedPayload, signature, ...rest] = token.split('.')
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new HttpError(400, 'Malformed invite link')
+  }
+
+  const expected = Buffer.from(sign(encodedPayload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new HttpError(401, 'Invalid invite link')
+  }
+
+  let payload: InviteTokenPayload
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'))
+  } catch {
+    throw new HttpError(400, 'Malformed invite link')
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now.getTime()) {
+    throw new HttpError(410, 'This invite link has expired', { reason: 'expired' })
+  }
+
+  return payload
+}
+
+export function issueInviteLink(sessionId: string, input: InviteLinkInput) {
+  const expiresAt = new Date(Date.now() + input.expiresInMinutes * 60 * 1000)
+  const token = signInviteToken({
+    sid: sessionId,
+    role: input.role,
+    ...(input.email ? { email: input.email.toLowerCase() } : {}),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  })
+
+  return {
+    token,
+    url: `${env.appUrl.replace(/\/$/, '')}/join?token=${encodeURIComponent(token)}`,
+    role: input.role,
+    email: input.email ?? null,
+    expires_at: expiresAt.toISOString(),
+  }
+}
+
+export async function joinSessionByInviteToken(user: AuthedUser, token: string) {
+  const payload = verifyInviteToken(token)
+
+  if (payload.email && payload.email !== user.email?.toLowerCase()) {
+    throw new HttpError(403, 'This invite link was issued for a different email address')
+  }
+
+  if (payload.role === 'co-mentor' && user.role !== 'mentor') {
+    throw new HttpError(403, 'Only mentors can join as a co-mentor')
+  }
+
+  const { data: session, error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .select('id, created_by, status, lobby_enabled')
+    .eq('id', payload.sid)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to look up session', formatPostgrestError(error))
+  }
+
+  if (!session) {
+    throw new HttpError(404, 'Session not found')
+  }
+
+  const admission = await addSessionParticipant(session, user.id, payload.role === 'co-mentor' ? 'co-host' : 'student')
+
+  return { session, role: payload.role, admission }
+}
@@ -0,0 +1,266 @@
+import { execFile } from 'child_process'
+import * as path from 'path'
+import { env } from '../config/env'
+import { logger } from '../logger'
+
+export type LanguageCommand = {
+  command: string
+  args: string[]
+  env?: Record<string, string>
+}
+
+export type LanguageContext = {
+  workDir: string
+  sourcePath: string
+  memoryMb: number
+  // Command-line arguments for the program itself; every run command must pass them through.
+  args: string[]
+}
+
+export type LanguageDefinition = {
+  id: string
+  name: string
+  aliases: string[]
+  // Monaco/editor language id the frontend should use for highlighting.
+  editorLanguage: string
+  fileName: (code: string) => string
+  compile?: (ctx: LanguageContext) => LanguageCommand
+  run: (ctx: LanguageContext) => LanguageCommand
+  version: LanguageCommand
+}
+
+export type LanguageAvailability = {
+  id: string
+  name: string
+  aliases: string[]
+  editorLanguage: string
+  compiled: boolean
+  installed: boolean
+  version: string | null
+}
+
+const PROBE_TIMEOUT_MS = 5000
+const PROBE_TTL_MS = 5 * 60 * 1000
+const GO_CACHE_WARM_TIMEOUT_MS = 15 * 60 * 1000
+
+// Compiling the standard library from scratch takes longer than a build may, so Go builds share a cache the API fills
+// at startup (see `warmGoBuildCache`). Runs can read it but not write to it; until it is ready each build starts cold.
+let goCacheReady = false
+
+const goCacheDir = (ctx: LanguageContext) =>
+  goCacheReady ? env.codeRunner.goCacheDir : path.join(ctx.workDir, '.gocache')
+
+const fixedName = (name: string) => () => name
+
+const halfMemory = (ctx: LanguageContext) => `${Math.max(32, Math.floor(ctx.memoryMb / 2))}m`
+
+const binaryPath = (ctx: LanguageContext) => path.join(ctx.workDir, 'main')
+
+const javaClassName = (code: string) => code.match(/public\s+class\s+(\w+)/)?.[1] ?? 'Main'
+
+export const languages: LanguageDefinition[] = [
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    aliases: ['js', 'node'],
+    editorLanguage: 'javascript',
+    fileName: fixedName('code.js'),
+    run: (ctx) => ({ command: 'node', args: [ctx.sourcePath, ...ctx.args] }),
+    version: { command: 'node', args: ['--version'] },
+  },
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    aliases: ['ts'],
+    editorLanguage: 'typescript',
+    fileName: fixedName('code.ts'),
+    run: (ctx) => ({ command: 'npx', args: ['ts-node', ctx.sourcePath, ...ctx.args] }),
+    version: { command: 'npx', args: ['--no-install', 'ts-node', '--version'] },
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    aliases: ['py', 'python3'],
+    editorLanguage: 'python',
+    fileName: fixedName('code.py'),
+    run: (ctx) => ({ command: 'python3', args: [ctx.sourcePath, ...ctx.args] }),
+    version: { command: 'python3', args: ['--version'] },
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    aliases: [],
+    editorLanguage: 'java',
+    fileName: (code) => `${javaClassName(code)}.java`,
+    compile: (ctx) => ({ command: 'javac', args: [`-J-Xmx${halfMemory(ctx)}`, ctx.sourcePath] }),
+    run: (ctx) => ({
+      command: 'java',
+      args: [`-Xmx${halfMemory(ctx)}`, '-cp', ctx.workDir, path.basename(ctx.sourcePath, '.java'), ...ctx.args],
+    }),
+    version: { command: 'javac', args: ['-version'] },
+  },
+  {
+    id: 'csharp',
+    name: 'C#',
+    aliases: ['c#', 'cs'],
+    editorLanguage: 'csharp',
+    fileName: fixedName('code.cs'),
+    run: (ctx) => ({
+      command: 'dotnet',
+      args: ['script', ctx.sourcePath, '--', ...ctx.args],
+      env: { DOTNET_CLI_HOME: ctx.workDir, DOTNET_CLI_TELEMETRY_OPTOUT: '1' },
+    }),
+    version: { command: 'dotnet', args: ['script', '--version'] },
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    aliases: ['golang'],
+    editorLanguage: 'go',
+    fileName: fixedName('main.go'),
+    compile: (ctx) => ({
+      command: 'go',
+      args: ['build', '-o', binaryPath(ctx), ctx.sourcePath],
+      env: { GOCACHE: goCacheDir(ctx), GOPATH: path.join(ctx.workDir, '.gopath') },
+    }),
+    run: (ctx) => ({ command: binaryPath(ctx), args: ctx.args }),
+    version: { command: 'go', args: ['version'] },
+  },
+  {
+    id: 'c',
+    name: 'C',
+    aliases: [],
+    editorLanguage: 'c',
+    fileName: fixedName('main.c'),
+    compile: (ctx) => ({ command: 'gcc', args: ['-O2', '-std=c17', '-o', binaryPath(ctx), ctx.sourcePath, '-lm'] }),
+    run: (ctx) => ({ command: binaryPath(ctx), args: ctx.args }),
+    version: { command: 'gcc', args: ['--version'] },
+  },
+  {
+    id: 'cpp',
+    name: 'C++',
+    aliases: ['c++', 'cxx'],
+    editorLanguage: 'cpp',
+    fileName: fixedName('main.cpp'),
+    compile: (ctx) => ({ command: 'g++', args: ['-O2', '-std=c++17', '-o', binaryPath(ctx), ctx.sourcePath] }),
+    run: (ctx) => ({ command: binaryPath(ctx), args: ctx.args }),
+    version: { command: 'g++', args: ['--version'] },
+  },
+  {
+    id: 'rust',
+    name: 'Rust',
+    aliases: ['rs'],
+    editorLanguage: 'rust',
+    fileName: fixedName('main.rs'),
+    compile: (ctx) => ({ command: 'rustc', args: ['-O', '--edition', '2021', '-o', binaryPath(ctx), ctx.sourcePath] }),
+    run: (ctx) => ({ command: binaryPath(ctx), args: ctx.args }),
+    version: { command: 'rustc', args: ['--version'] },
+  },
+  {
+    id: 'ruby',
+    name: 'Ruby',
+    aliases: ['rb'],
+    editorLanguage: 'ruby',
+    fileName: fixedName('main.rb'),
+    run: (ctx) => ({ command: 'ruby', args: [ctx.sourcePath, ...ctx.args] }),
+    version: { command: 'ruby', args: ['--version'] },
+  },
+  {
+    id: 'php',
+    name: 'PHP',
+    aliases: [],
+    editorLanguage: 'php',
+    fileName: fixedName('main.php'),
+    run: (ctx) => ({ command: 'php', args: [ctx.sourcePath, ...ctx.args] }),
+    version: { command: 'php', args: ['--version'] },
+  },
+  {
+    id: 'kotlin',
+    name: 'Kotlin',
+    aliases: ['kt'],
+    editorLanguage: 'kotlin',
+    fileName: fixedName('main.kt'),
+    compile: (ctx) => ({
+      command: 'kotlinc',
+      args: [`-J-Xmx${halfMemory(ctx)}`, ctx.sourcePath, '-include-runtime', '-d', path.join(ctx.workDir, 'main.jar')],
+    }),
+    run: (ctx) => ({
+      command: 'java',
+      args: [`-Xmx${halfMemory(ctx)}`, '-jar', path.join(ctx.workDir, 'main.jar'), ...ctx.args],
+    }),
+    version: { command: 'kotlinc', args: ['-version'] },
+  },
+]
+
+const byName = new Map<string, LanguageDefinition>()
+languages.forEach((language) => {
+  ;[language.id, ...language.aliases].forEach((name) => byName.set(name.toLowerCase(), language))
+})
+
+export const resolveLanguage = (name: string) => byName.get(name.trim().toLowerCase())
+
+const probe = (language: LanguageDefinition) =>
+  new Promise<string | null>((resolve) => {
+    execFile(
+      language.version.command,
+      language.version.args,
+      { timeout: PROBE_TIMEOUT_MS, env: { PATH: env.codeRunner.path } },
+      (err, stdout, stderr) => {
+        if (err) return resolve(null)
+        // Some toolchains (javac, kotlinc) print their version on stderr.
+        const firstLine = `${stdout}\n${stderr}`.split('\n').find((line) => line.trim())
+        resolve(firstLine?.trim() ?? '')
+      }
+    )
+  })
+
+let cachedAvailability: { expiresAt: number; value: Promise<LanguageAvailability[]> } | null = null
+
+export function listLanguageAvailability(): Promise<LanguageAvailability[]> {
+  if (cachedAvailability && cachedAvailability.expiresAt > Date.now()) {
+    return cachedAvailability.value
+  }
+
+  const value = Promise.all(
+    languages.map(async (language) => {
+      const version = await probe(language)
+      return {
+        id: language.id,
+        name: language.name,
+        aliases: language.aliases,
+        editorLanguage: language.editorLanguage,
+        compiled: Boolean(language.compile),
+        installed: version !== null,
+        version,
+      }
+    })
+  )
+
+  cachedAvailability = { expiresAt: Date.now() + PROBE_TTL_MS, value }
+  return value
+}
+
+// Builds the Go standard library into the shared cache as the API's own user. Only called at startup; failures are
+// logged and leave Go builds on a per-run cache.
+export function warmGoBuildCache(): Promise<void> {
+  const cacheDir = env.codeRunner.goCacheDir
+
+  return new Promise((resolve) => {
+    execFile(
+      'go',
+      ['build', 'std'],
+      // Same PATH as the runs, so cgo is detected the same way and the cached packages match their builds.
+      { timeout: GO_CACHE_WARM_TIMEOUT_MS, env: { PATH: env.codeRunner.path, GOCACHE: cacheDir, HOME: cacheDir } },
+      (err, _stdout, stderr) => {
+        if (!err) {
+          goCacheReady = true
+          logger.info('Go build cache ready', { cacheDir })
+        } else if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          // ENOENT just means Go is not installed.
+          logger.warn('Failed to prepare the Go build cache', { cacheDir, message: err.message, stderr: stderr.trim() })
+        }
+        resolve()
+      }
+    )
+  })
+}
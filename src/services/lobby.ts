@@ -0,0 +1,149 @@
+import { emitToUser } from '../lib/socket'
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { formatPostgrestError, invalidateSessionAccess } from './session'
+import type { ParticipantAdmission } from '../types'
+
+export type LobbyDecision = Exclude<ParticipantAdmission, 'pending'>
+
+export type LobbyEntry = {
+  user_id: string
+  name: string | null
+  avatar_url: string | null
+  requested_at: string
+}
+
+const loadProfiles = async (userIds: string[]) => {
+  if (userIds.length === 0) return new Map<string, { name: string | null; avatar_url: string | null }>()
+
+  const { data, error } = await supabaseAdmin.from('profiles').select('id,name,avatar_url').in('id', userIds)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load participant profiles', formatPostgrestError(error))
+  }
+
+  return new Map(
+    (data ?? []).map((profile) => [profile.id as string, { name: profile.name, avatar_url: profile.avatar_url }])
+  )
+}
+
+// Lobby events go to the mentors' personal rooms: they may be looking at another page, not sitting in the session room.
+async function loadMentorIds(sessionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .select('user_id')
+    .eq('session_id', sessionId)
+    .in('role', ['mentor', 'co-host'])
+    .is('kicked_at', null)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load session mentors', formatPostgrestError(error))
+  }
+
+  return (data ?? []).map((participant) => participant.user_id as string)
+}
+
+export async function listLobby(sessionId: string): Promise<LobbyEntry[]> {
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .select('user_id,joined_at')
+    .eq('session_id', sessionId)
+    .eq('admission', 'pending')
+    .is('kicked_at', null)
+    .order('joined_at', { ascending: true })
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load lobby', formatPostgrestError(error))
+  }
+
+  const profiles = await loadProfiles((data ?? []).map((entry) => entry.user_id as string))
+
+  return (data ?? []).map((entry) => ({
+    user_id: entry.user_id,
+    name: profiles.get(entry.user_id)?.name ?? null,
+    avatar_url: profiles.get(entry.user_id)?.avatar_url ?? null,
+    requested_at: entry.joined_at,
+  }))
+}
+
+export async function notifyLobbyRequest(sessionId: string, userId: string) {
+  const [mentorIds, profiles] = await Promise.all([loadMentorIds(sessionId), loadProfiles([userId])])
+  const profile = profiles.get(userId)
+
+  mentorIds.forEach((mentorId) =>
+    emitToUser(mentorId, 'lobby:request', {
+      sessionId,
+      user_id: userId,
+      name: profile?.name ?? null,
+      avatar_url: profile?.avatar_url ?? null,
+    })
+  )
+}
+
+// Tells the waiting user the outcome, and every mentor that the request is settled so it leaves their queue.
+async function announceDecisions(sessionId: string, userIds: string[], decision: LobbyDecision, decidedBy: string) {
+  if (userIds.length === 0) return
+
+  invalidateSessionAccess(sessionId)
+
+  const event = decision === 'admitted' ? 'lobby:admitted' : 'lobby:denied'
+  userIds.forEach((userId) => emitToUser(userId, event, { sessionId }))
+
+  const mentorIds = await loadMentorIds(sessionId)
+  userIds.forEach((userId) =>
+    mentorIds.forEach((mentorId) =>
+      emitToUser(mentorId, 'lobby:resolved', { sessionId, user_id: userId, admission: decision, decided_by: decidedBy })
+    )
+  )
+}
+
+export async function decideLobbyRequest(
+  moderatorId: string,
+  sessionId: string,
+  targetUserId: string,
+  decision: LobbyDecision
+) {
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .update({ admission: decision })
+    .eq('session_id', sessionId)
+    .eq('user_id', targetUserId)
+    .eq('admission', 'pending')
+    .is('kicked_at', null)
+    .select('user_id,role,admission')
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to update lobby request', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'No pending request from that user')
+  }
+
+  await announceDecisions(sessionId, [targetUserId], decision, moderatorId)
+
+  return data
+}
+
+// Turning the lobby off lets everyone who is still waiting in.
+export async function admitEveryoneWaiting(moderatorId: string, sessionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .update({ admission: 'admitted' })
+    .eq('session_id', sessionId)
+    .eq('admission', 'pending')
+    .is('kicked_at', null)
+    .select('user_id')
+
+  if (error) {
+    throw new HttpError(500, 'Unable to admit waiting participants', formatPostgrestError(error))
+  }
+
+  await announceDecisions(
+    sessionId,
+    (data ?? []).map((participant) => participant.user_id as string),
+    'admitted',
+    moderatorId
+  )
+}
@@ -0,0 +1,136 @@
+import { supabaseAdmin } from '../lib/supabase'
+import { HttpError } from '../utils/httpError'
+import { formatPostgrestError } from './session'
+import type { SessionMessageMention } from '../types'
+
+export type MentionCandidate = {
+  user_id: string
+  name: string
+}
+
+export type MessageMention = Pick<SessionMessageMention, 'user_id'> & {
+  name: string | null
+}
+
+const isWordChar = (char: string) => /[\p{L}\p{N}_]/u.test(char)
+
+// Active participants joined with their profile names; the mention vocabulary of a session.
+export async function loadMentionCandidates(sessionId: string) {
+  const { data: participants, error } = await supabaseAdmin
+    .from('session_participants')
+    .select('user_id')
+    .eq('session_id', sessionId)
+    .is('kicked_at', null)
+    .eq('admission', 'admitted')
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load session participants', formatPostgrestError(error))
+  }
+
+  const userIds = (participants ?? []).map((participant) => participant.user_id as string)
+  if (userIds.length === 0) return []
+
+  const { data: profiles, error: profileError } = await supabaseAdmin.from('profiles').select('id,name').in('id', userIds)
+
+  if (profileError) {
+    throw new HttpError(500, 'Unable to load participant profiles', formatPostgrestError(profileError))
+  }
+
+  return (profiles ?? [])
+    .filter((profile) => typeof profile.name === 'string' && profile.name.trim())
+    .map((profile) => ({ user_id: profile.id as string, name: (profile.name as string).trim() }))
+}
+
+// Matches `@Full Name` case-insensitively, and `@First` when no other participant shares that first name. Longer
+// names win, so `@Ana Lima` never resolves to a participant called just `Ana`. An `@` inside a word (emails) is ignored.
+export function parseMentions(content: string, candidates: MentionCandidate[]) {
+  const labels: Array<{ label: string; userId: string }> = []
+  const firstNames = new Map<string, string[]>()
+
+  candidates.forEach((candidate) => {
+    labels.push({ label: candidate.name.toLowerCase(), userId: candidate.user_id })
+    const first = candidate.name.split(/\s+/)[0].toLowerCase()
+    firstNames.set(first, [...(firstNames.get(first) ?? []), candidate.user_id])
+  })
+
+  firstNames.forEach((userIds, first) => {
+    if (userIds.length === 1 && !labels.some((entry) => entry.label === first)) {
+      labels.push({ label: first, userId: userIds[0] })
+    }
+  })
+
+  labels.sort((a, b) => b.label.length - a.label.length)
+
+  const text = content.toLowerCase()
+  const mentioned = new Set<string>()
+
+  for (let index = text.indexOf('@'); index !== -1; index = text.indexOf('@', index + 1)) {
+    if (index > 0 && isWordChar(text[index - 1])) continue
+
+    const rest = text.slice(index + 1)
+    const match = labels.find(({ label }) => rest.startsWith(label) && !isWordChar(rest.charAt(label.length)))
+    if (match) mentioned.add(match.userId)
+  }
+
+  return [...mentioned]
+}
+
+// Replaces the mention records of a message and returns the users who were not mentioned in it before.
+export async function storeMentions(sessionId: string, messageId: string, userIds: string[]) {
+  const { data: existing, error } = await supabaseAdmin
+    .from('session_message_mentions')
+    .select('user_id')
+    .eq('message_id', messageId)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load mentions', formatPostgrestError(error))
+  }
+
+  const previous = new Set((existing ?? []).map((mention) => mention.user_id as string))
+  const removed = [...previous].filter((userId) => !userIds.includes(userId))
+  const added = userIds.filter((userId) => !previous.has(userId))
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabaseAdmin
+      .from('session_message_mentions')
+      .delete()
+      .eq('message_id', messageId)
+      .in('user_id', removed)
+
+    if (deleteError) {
+      throw new HttpError(500, 'Unable to update mentions', formatPostgrestError(deleteError))
+    }
+  }
+
+  if (added.length > 0) {
+    const { error: insertError } = await supabaseAdmin
+      .from('session_message_mentions')
+      .insert(added.map((userId) => ({ session_id: sessionId, message_id: messageId, user_id: userId })))
+
+    if (insertError) {
+      throw new HttpError(500, 'Unable to store mentions', formatPostgrestError(insertError))
+    }
+  }
+
+  return added
+}
+
+export async function loadMentions(messageIds: string[]) {
+  const byMessage = new Map<string, string[]>()
+  if (messageIds.length === 0) return byMessage
+
+  const { data, error } = await supabaseAdmin
+    .from('session_message_mentions')
+    .select('message_id,user_id')
+    .in('message_id', messageIds)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load mentions', formatPostgrestError(error))
+  }
+
+  ;(data ?? []).forEach((mention) => {
+    byMessage.set(mention.message_id, [...(byMessage.get(mention.message_id) ?? []), mention.user_id])
+  })
+
+  return byMessage
+}
@@ -0,0 +1,138 @@
+import { HttpError } from '../utils/httpError'
+
+export type PresenceUser = {
+  userId: string
+  name: string | null
+  role: string
+}
+
+export type PresenceParticipant = PresenceUser & {
+  color: string
+  connections: number
+  joinedAt: string
+  lastSeenAt: string
+}
+
+export type CursorPosition = {
+  line: number
+  column: number
+}
+
+export type SelectionRange = {
+  start: CursorPosition
+  end: CursorPosition
+}
+
+type PresenceEntry = PresenceUser & {
+  color: string
+  // One entry per user; every open tab or device adds its socket id here.
+  sockets: Set<string>
+  joinedAt: string
+  lastSeenAt: string
+}
+
+const COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324', '#469990', '#800000']
+
+const sessions = new Map<string, Map<string, PresenceEntry>>()
+
+// Stable per user so a participant keeps the same cursor color across tabs and reconnects.
+export const colorForUser = (userId: string) => {
+  let hash = 0
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return COLORS[Math.abs(hash) % COLORS.length]
+}
+
+const toParticipant = (entry: PresenceEntry): PresenceParticipant => ({
+  userId: entry.userId,
+  name: entry.name,
+  role: entry.role,
+  color: entry.color,
+  connections: entry.sockets.size,
+  joinedAt: entry.joinedAt,
+  lastSeenAt: entry.lastSeenAt,
+})
+
+// Returns `joined: true` only for the user's first connection, so extra tabs don't re-announce them.
+export function addPresence(sessionId: string, socketId: string, user: PresenceUser) {
+  let entries = sessions.get(sessionId)
+  if (!entries) {
+    entries = new Map()
+    sessions.set(sessionId, entries)
+  }
+
+  const now = new Date().toISOString()
+  let entry = entries.get(user.userId)
+  const joined = !entry
+
+  if (!entry) {
+    entry = { ...user, color: colorForUser(user.userId), sockets: new Set(), joinedAt: now, lastSeenAt: now }
+    entries.set(user.userId, entry)
+  }
+
+  entry.name = user.name
+  entry.role = user.role
+  entry.lastSeenAt = now
+  entry.sockets.add(socketId)
+
+  return { participant: toParticipant(entry), joined }
+}
+
+// Returns `left: true` once the user's last connection to the session is gone.
+export function removePresence(sessionId: string, socketId: string, userId: string) {
+  const entries = sessions.get(sessionId)
+  const entry = entries?.get(userId)
+  if (!entries || !entry || !entry.sockets.delete(socketId)) {
+    return { participant: null, left: false }
+  }
+
+  const left = entry.sockets.size === 0
+  if (left) {
+    entries.delete(userId)
+    if (entries.size === 0) sessions.delete(sessionId)
+  }
+
+  return { participant: toParticipant(entry), left }
+}
+
+export function touchPresence(sessionId: string, userId: string) {
+  const entry = sessions.get(sessionId)?.get(userId)
+  if (!entry) return null
+
+  entry.lastSeenAt = new Date().toISOString()
+  return toParticipant(entry)
+}
+
+export const listPresence = (sessionId: string) => [...(sessions.get(sessionId)?.values() ?? [])].map(toParticipant)
+
+const isPosition = (value: unknown): value is CursorPosition => {
+  const position = value as CursorPosition | null
+  return (
+    typeof position === 'object' &&
+    position !== null &&
+    Number.isInteger(position.line) &&
+    Number.isInteger(position.column) &&
+    position.line >= 0 &&
+    position.column >= 0
+  )
+}
+
+export function parseCursor(value: unknown): CursorPosition {
+  if (!isPosition(value)) {
+    throw new HttpError(400, 'position must have non-negative integer line and column')
+  }
+  return { line: value.line, column: value.column }
+}
+
+// `null` clears the selection.
+export function parseSelection(value: unknown): SelectionRange | null {
+  if (value === null) return null
+
+  const range = value as Partial<SelectionRange> | undefined
+  if (!range || !isPosition(range.start) || !isPosition(range.end)) {
+    throw new HttpError(400, 'selection must have start and end positions, or be null')
+  }
+
+  return { start: parseCursor(range.start), end: parseCursor(range.end) }
+}
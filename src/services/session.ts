@@ -1,9 +1,19 @@
 import type { PostgrestError } from '@supabase/supabase-js'
 import { supabaseAdmin } from '../lib/supabase'
+import { logger } from '../logger'
 import { HttpError } from '../utils/httpError'
-
-const SESSION_SELECT =
-  'id,title,status,scheduled_at,duration_minutes,created_at,created_by,summary,invite_code,allow_collab,allow_chat,allow_video,metadata,participants:session_participants(id,user_id,role,joined_at,kicked_at,can_edit,can_share_screen)'
+import { assertInviteCodeUsable, createInviteCode, normalizeInviteCode } from '../utils/inviteCode'
+import type {
+  MentorshipSession,
+  ParticipantAdmission,
+  ParticipantRole,
+  SessionCodeSnapshot,
+  SessionParticipant,
+  SessionStatus,
+} from '../types'
+
+export const SESSION_SELECT =
+  'id,title,status,scheduled_at,duration_minutes,started_at,ended_at,cancelled_at,created_at,updated_at,created_by,summary,invite_code,invite_expires_at,invite_max_uses,invite_use_count,invite_revoked_at,series_id,series_index,allow_collab,allow_chat,allow_video,lobby_enabled,metadata,participants:session_participants(id,user_id,role,joined_at,kicked_at,admission,can_edit,can_share_screen)'
 
 type JsonRecord = Record<string, any>
 
@@ -12,8 +22,32 @@ type ParticipantRow = {
   user_id: string
   role: string
   kicked_at: string | null
+  admission: ParticipantAdmission
+}
+
+export type SessionAccess = {
+  session: Pick<MentorshipSession, 'id' | 'created_by' | 'status' | 'allow_collab' | 'allow_chat' | 'allow_video'>
+  participant: Pick<
+    SessionParticipant,
+    'user_id' | 'role' | 'kicked_at' | 'admission' | 'can_edit' | 'can_share_screen'
+  > | null
 }
 
+// Socket handlers check access on every event (code ops arrive many times a second), so lookups are cached briefly.
+// Every write that changes flags or participant rows below invalidates the session, so changes apply immediately.
+const ACCESS_TTL_MS = 15 * 1000
+
+const INVITE_CODE_ATTEMPTS = 5
+
+// Concurrent joins race to bump `invite_use_count`; losers re-check the code and try again this many times.
+const INVITE_CLAIM_ATTEMPTS = 3
+
+const INVITE_SELECT = 'invite_code,invite_expires_at,invite_max_uses,invite_use_count,invite_revoked_at'
+
+const accessCache = new Map<string, { expiresAt: number; value: Promise<SessionAccess> }>()
+
+const accessKey = (sessionId: string, userId: string) => `${sessionId}:${userId}`
+
 export type SessionCreateInput = {
   title: string
   summary?: string | null
@@ -22,39 +56,96 @@ export type SessionCreateInput = {
   allow_collab?: boolean
   allow_chat?: boolean
   allow_video?: boolean
+  lobby_enabled?: boolean
   metadata?: JsonRecord | null
+  invite_expires_at?: string | null
+  invite_max_uses?: number | null
   participantUserIds?: string[]
 }
 
+export type InviteCodeLimits = {
+  expires_at?: string | null
+  max_uses?: number | null
+}
+
 export type SessionUpdateInput = {
   title?: string
   summary?: string | null
   scheduled_at?: string | null
   duration_minutes?: number | null
-  status?: 'scheduled' | 'live' | 'completed' | 'cancelled'
+  status?: SessionStatus
   allow_collab?: boolean
   allow_chat?: boolean
   allow_video?: boolean
+  lobby_enabled?: boolean
   metadata?: JsonRecord | null
 }
 
+// `missed` is only set by the scheduler, for sessions that never went live.
+const STATUS_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  scheduled: ['live', 'cancelled', 'missed'],
+  live: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  missed: [],
+}
+
+export function assertStatusTransition(from: SessionStatus, to: SessionStatus) {
+  if (!STATUS_TRANSITIONS[from]?.includes(to)) {
+    throw new HttpError(409, `A ${from} session cannot be moved to ${to}`)
+  }
+}
+
+// Each transition stamps when it happened; cancelling or completing also closes the session.
+export const statusTimestamps = (status: SessionStatus, now = new Date().toISOString()): JsonRecord => {
+  switch (status) {
+    case 'live':
+      return { started_at: now }
+    case 'completed':
+    case 'missed':
+      return { ended_at: now }
+    case 'cancelled':
+      return { cancelled_at: now, ended_at: now }
+    default:
+      return {}
+  }
+}
+
+export const isModeratorRole = (role: string | null | undefined) => role === 'mentor' || role === 'co-host'
+
 export const formatPostgrestError = (error: PostgrestError | null) => {
   if (!error) return undefined
   const { message, details, hint, code } = error
   return { message, details, hint, code }
 }
 
+// Sessions the user owns or has been admitted to. Kicked users and anyone still waiting in (or refused by) the lobby do
+// not see the session, or its invite code, here or in their calendar feed.
 export async function listSessionsForUser(userId: string) {
-  const { data: participantRows, error: participantError } = await supabaseAdmin
-    .from('session_participants')
-    .select('session_id')
-    .eq('user_id', userId)
-
-  if (participantError) {
-    throw new HttpError(500, 'Unable to load session memberships', formatPostgrestError(participantError))
-  }
-
-  const sessionIds = [...new Set(participantRows?.map((row) => row.session_id) ?? [])]
+  const [memberships, owned] = await Promise.all([
+    supabaseAdmin
+      .from('session_participants')
+      .select('session_id')
+      .eq('user_id', userId)
+      .eq('admission', 'admitted')
+      .is('kicked_at', null),
+    supabaseAdmin.from('mentorship_sessions').select('id').eq('created_by', userId),
+  ])
+
+  if (memberships.error || owned.error) {
+    throw new HttpError(
+      500,
+      'Unable to load session memberships',
+      formatPostgrestError(memberships.error ?? owned.error)
+    )
+  }
+
+  const sessionIds = [
+    ...new Set([
+      ...(memberships.data ?? []).map((row) => row.session_id as string),
+      ...(owned.data ?? []).map((row) => row.id as string),
+    ]),
+  ]
   if (sessionIds.length === 0) {
     return []
   }
@@ -75,7 +166,7 @@ export async function listSessionsForUser(userId: string) {
 export async function ensureSessionParticipant(userId: string, sessionId: string) {
   const { data, error } = await supabaseAdmin
     .from('session_participants')
-    .select('user_id,role,kicked_at')
+    .select('user_id,role,kicked_at,admission')
     .eq('session_id', sessionId)
     .eq('user_id', userId)
     .maybeSingle()
@@ -92,9 +183,81 @@ export async function ensureSessionParticipant(userId: string, sessionId: string
     throw new HttpError(403, 'You have been removed from this session')
   }
 
+  if (data.admission === 'pending') {
+    throw new HttpError(403, 'You are waiting for a mentor to admit you', { reason: 'pending' })
+  }
+
+  if (data.admission === 'denied') {
+    throw new HttpError(403, 'Your request to join this session was declined', { reason: 'denied' })
+  }
+
   return data as ParticipantRow
 }
 
+async function fetchSessionAccess(userId: string, sessionId: string): Promise<SessionAccess> {
+  const [sessionResult, participantResult] = await Promise.all([
+    supabaseAdmin
+      .from('mentorship_sessions')
+      .select('id,created_by,status,allow_collab,allow_chat,allow_video')
+      .eq('id', sessionId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('session_participants')
+      .select('user_id,role,kicked_at,admission,can_edit,can_share_screen')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ])
+
+  const error = sessionResult.error ?? participantResult.error
+  if (error) {
+    throw new HttpError(500, 'Unable to verify session access', formatPostgrestError(error))
+  }
+
+  if (!sessionResult.data) {
+    throw new HttpError(404, 'Session not found')
+  }
+
+  return {
+    session: sessionResult.data as SessionAccess['session'],
+    participant: (participantResult.data as SessionAccess['participant']) ?? null,
+  }
+}
+
+export function getSessionAccess(userId: string, sessionId: string) {
+  const key = accessKey(sessionId, userId)
+  const cached = accessCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value
+  }
+
+  const value = fetchSessionAccess(userId, sessionId)
+  accessCache.set(key, { expiresAt: Date.now() + ACCESS_TTL_MS, value })
+  // Never keep a failed lookup around.
+  value.catch(() => {
+    if (accessCache.get(key)?.value === value) accessCache.delete(key)
+  })
+
+  return value
+}
+
+export function invalidateSessionAccess(sessionId: string) {
+  const prefix = `${sessionId}:`
+  for (const key of accessCache.keys()) {
+    if (key.startsWith(prefix)) accessCache.delete(key)
+  }
+}
+
+export async function ensureSessionMentor(userId: string, sessionId: string) {
+  const participant = await ensureSessionParticipant(userId, sessionId)
+
+  if (!isModeratorRole(participant.role)) {
+    throw new HttpError(403, 'Only mentors of this session can do that')
+  }
+
+  return participant
+}
+
 export async function getSessionForUser(userId: string, sessionId: string) {
   await ensureSessionParticipant(userId, sessionId)
 
@@ -115,33 +278,45 @@ export async function getSessionForUser(userId: string, sessionId: string) {
   return data
 }
 
-export async function addSessionMessage(sessionId: string, userId: string, content: string) {
+export async function addCodeSnapshot(sessionId: string, userId: string, code: string, language: string) {
   await ensureSessionParticipant(userId, sessionId)
+  return insertCodeSnapshot(sessionId, userId, code, language)
+}
 
-  const { error } = await supabaseAdmin.from('session_messages').insert({
-    session_id: sessionId,
-    author_id: userId,
-    content,
-  })
+// No access check: used for edits that were already authorized when they were made.
+export async function insertCodeSnapshot(sessionId: string, authorId: string, code: string, language: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_code_snapshots')
+    .insert({
+      session_id: sessionId,
+      author_id: authorId,
+      language,
+      code,
+    })
+    .select('id,created_at')
+    .single()
 
-  if (error) {
-    throw new HttpError(500, 'Unable to store message', formatPostgrestError(error))
+  if (error || !data) {
+    throw new HttpError(500, 'Unable to store code snapshot', formatPostgrestError(error))
   }
-}
 
-export async function addCodeSnapshot(sessionId: string, userId: string, code: string, language: string) {
-  await ensureSessionParticipant(userId, sessionId)
+  return data as Pick<SessionCodeSnapshot, 'id' | 'created_at'>
+}
 
-  const { error } = await supabaseAdmin.from('session_code_snapshots').insert({
-    session_id: sessionId,
-    author_id: userId,
-    language,
-    code,
-  })
+export async function getLatestCodeSnapshot(sessionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_code_snapshots')
+    .select('id,session_id,author_id,language,code,created_at')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
 
   if (error) {
-    throw new HttpError(500, 'Unable to store code snapshot', formatPostgrestError(error))
+    throw new HttpError(500, 'Unable to load code snapshot', formatPostgrestError(error))
   }
+
+  return data as SessionCodeSnapshot | null
 }
 
 const emptyObject: JsonRecord = {}
@@ -151,7 +326,7 @@ const sanitizeMetadata = (metadata?: JsonRecord | null) => metadata ?? emptyObje
 const ensureSessionExistsWithOwner = async (sessionId: string) => {
   const { data, error } = await supabaseAdmin
     .from('mentorship_sessions')
-    .select('id, created_by')
+    .select('id, created_by, status')
     .eq('id', sessionId)
     .maybeSingle()
 
@@ -166,8 +341,32 @@ const ensureSessionExistsWithOwner = async (sessionId: string) => {
   return data
 }
 
-export async function createSession(mentorId: string, input: SessionCreateInput) {
-  const sessionPayload = {
+// Draws `count` codes that no session uses yet. Collisions are rare, so a retry only redraws the codes that clashed;
+// the unique constraint on `invite_code` still guards the gap between this check and the insert.
+export async function generateInviteCodes(count: number) {
+  const codes = new Set<string>()
+
+  for (let attempt = 0; attempt < INVITE_CODE_ATTEMPTS; attempt++) {
+    while (codes.size < count) codes.add(createInviteCode())
+
+    const { data, error } = await supabaseAdmin
+      .from('mentorship_sessions')
+      .select('invite_code')
+      .in('invite_code', [...codes])
+
+    if (error) {
+      throw new HttpError(500, 'Unable to generate invite code', formatPostgrestError(error))
+    }
+
+    if (!data?.length) return [...codes]
+    data.forEach((row) => codes.delete(row.invite_code))
+  }
+
+  throw new HttpError(503, 'Unable to generate a unique invite code, please try again')
+}
+
+export function buildSessionRow(mentorId: string, input: SessionCreateInput, inviteCode: string) {
+  return {
     title: input.title,
     summary: input.summary ?? null,
     scheduled_at: input.scheduled_at ?? null,
@@ -175,36 +374,48 @@ export async function createSession(mentorId: string, input: SessionCreateInput)
     allow_collab: input.allow_collab ?? true,
     allow_chat: input.allow_chat ?? true,
     allow_video: input.allow_video ?? true,
+    lobby_enabled: input.lobby_enabled ?? false,
     metadata: sanitizeMetadata(input.metadata),
+    invite_code: inviteCode,
+    invite_expires_at: input.invite_expires_at ?? null,
+    invite_max_uses: input.invite_max_uses ?? null,
     created_by: mentorId,
   }
+}
 
-  const { data: session, error: sessionError } = await supabaseAdmin
-    .from('mentorship_sessions')
-    .insert(sessionPayload)
-    .select(SESSION_SELECT)
-    .single()
-
-  if (sessionError || !session) {
-    throw new HttpError(500, 'Unable to create session', formatPostgrestError(sessionError))
-  }
-
-  const uniqueStudentIds = Array.from(new Set((input.participantUserIds ?? []).filter((id) => id && id !== mentorId)))
+export function buildParticipantRows(sessionId: string, mentorId: string, participantUserIds: string[] = []) {
+  const uniqueStudentIds = Array.from(new Set(participantUserIds.filter((id) => id && id !== mentorId)))
 
-  const participantRows = [
+  return [
     {
-      session_id: session.id,
+      session_id: sessionId,
       user_id: mentorId,
       role: 'mentor',
       can_edit: true,
       can_share_screen: true,
     },
     ...uniqueStudentIds.map((userId) => ({
-      session_id: session.id,
+      session_id: sessionId,
       user_id: userId,
       role: 'student',
     })),
   ]
+}
+
+export async function createSession(mentorId: string, input: SessionCreateInput) {
+  const [inviteCode] = await generateInviteCodes(1)
+
+  const { data: session, error: sessionError } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .insert(buildSessionRow(mentorId, input, inviteCode))
+    .select(SESSION_SELECT)
+    .single()
+
+  if (sessionError || !session) {
+    throw new HttpError(500, 'Unable to create session', formatPostgrestError(sessionError))
+  }
+
+  const participantRows = buildParticipantRows(session.id, mentorId, input.participantUserIds)
 
   const { error: participantError } = await supabaseAdmin.from('session_participants').insert(participantRows)
 
@@ -216,11 +427,53 @@ export async function createSession(mentorId: string, input: SessionCreateInput)
   return session
 }
 
+// Counts one use of the code the joiner presented. The increment is conditional on the count we checked, so two joins
+// can never both take the last use of a limited code.
+const claimInviteCodeUse = async (sessionId: string, inviteCode: string) => {
+  for (let attempt = 0; attempt < INVITE_CLAIM_ATTEMPTS; attempt++) {
+    const { data: current, error } = await supabaseAdmin
+      .from('mentorship_sessions')
+      .select(INVITE_SELECT)
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new HttpError(500, 'Unable to look up session', formatPostgrestError(error))
+    }
+
+    if (!current || current.invite_code !== inviteCode) {
+      throw new HttpError(404, 'No session found for that code')
+    }
+
+    assertInviteCodeUsable(current)
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('mentorship_sessions')
+      .update({ invite_use_count: current.invite_use_count + 1 })
+      .eq('id', sessionId)
+      .eq('invite_code', inviteCode)
+      .eq('invite_use_count', current.invite_use_count)
+      .select('id')
+      .maybeSingle()
+
+    if (claimError) {
+      throw new HttpError(500, 'Unable to redeem invite code', formatPostgrestError(claimError))
+    }
+
+    if (claimed) return
+  }
+
+  throw new HttpError(409, 'Too many people are joining with this code right now, please try again')
+}
+
 export async function joinSessionByCode(userId: string, inviteCode: string) {
+  const candidates = [...new Set([inviteCode.trim(), normalizeInviteCode(inviteCode)])]
+
   const { data: session, error } = await supabaseAdmin
     .from('mentorship_sessions')
-    .select('id, created_by, status, invite_code')
-    .eq('invite_code', inviteCode)
+    .select(`id, created_by, status, lobby_enabled, ${INVITE_SELECT}`)
+    .in('invite_code', candidates)
+    .limit(1)
     .maybeSingle()
 
   if (error) {
@@ -231,13 +484,30 @@ export async function joinSessionByCode(userId: string, inviteCode: string) {
     throw new HttpError(404, 'No session found for that code')
   }
 
-  if (session.status === 'completed' || session.status === 'cancelled') {
+  // Existing members do not need the code any more, so its limits only apply to people joining for the first time.
+  const admission = await addSessionParticipant(session, userId, 'student', () =>
+    claimInviteCodeUse(session.id, session.invite_code)
+  )
+
+  return { session, admission }
+}
+
+// Shared by every way of joining. `beforeInsert` runs only for people who are not on the roster yet; a co-host
+// invitation upgrades an existing student instead of being ignored. With the lobby on, students join as `pending`
+// until a mentor admits them. Resolves to the participant's admission state.
+export async function addSessionParticipant(
+  session: Pick<MentorshipSession, 'id' | 'created_by' | 'status' | 'lobby_enabled'>,
+  userId: string,
+  role: Exclude<ParticipantRole, 'mentor'>,
+  beforeInsert?: () => Promise<void>
+) {
+  if (session.status === 'completed' || session.status === 'cancelled' || session.status === 'missed') {
     throw new HttpError(400, 'This session is no longer accepting participants')
   }
 
   const { data: existing, error: membershipError } = await supabaseAdmin
     .from('session_participants')
-    .select('id,kicked_at')
+    .select('id,role,kicked_at,admission')
     .eq('session_id', session.id)
     .eq('user_id', userId)
     .maybeSingle()
@@ -250,48 +520,125 @@ export async function joinSessionByCode(userId: string, inviteCode: string) {
     throw new HttpError(403, 'You have been removed from this session')
   }
 
-  if (!existing) {
-    const { error: insertError } = await supabaseAdmin.from('session_participants').insert({
-      session_id: session.id,
-      user_id: userId,
-      role: userId === session.created_by ? 'mentor' : 'student',
-    })
+  if (existing?.admission === 'denied') {
+    throw new HttpError(403, 'Your request to join this session was declined', { reason: 'denied' })
+  }
+
+  const fullAccess = { admission: 'admitted', can_edit: true, can_share_screen: true }
 
-    if (insertError) {
-      throw new HttpError(500, 'Unable to join session', formatPostgrestError(insertError))
+  if (existing) {
+    if (role === 'co-host' && existing.role === 'student') {
+      const { error: upgradeError } = await supabaseAdmin
+        .from('session_participants')
+        .update({ role, ...fullAccess })
+        .eq('id', existing.id)
+
+      if (upgradeError) {
+        throw new HttpError(500, 'Unable to update participant role', formatPostgrestError(upgradeError))
+      }
+
+      invalidateSessionAccess(session.id)
+      return 'admitted'
     }
+    return existing.admission as ParticipantAdmission
   }
 
-  return session
+  await beforeInsert?.()
+
+  const insertRole: ParticipantRole = userId === session.created_by ? 'mentor' : role
+  const admission: ParticipantAdmission = insertRole !== 'student' || !session.lobby_enabled ? 'admitted' : 'pending'
+
+  const { error: insertError } = await supabaseAdmin.from('session_participants').insert({
+    session_id: session.id,
+    user_id: userId,
+    ...(insertRole === 'student' ? { role: insertRole, admission } : { role: insertRole, ...fullAccess }),
+  })
+
+  if (insertError) {
+    throw new HttpError(500, 'Unable to join session', formatPostgrestError(insertError))
+  }
+
+  invalidateSessionAccess(session.id)
+
+  return admission
 }
 
-export async function updateSessionSettings(mentorId: string, sessionId: string, updates: SessionUpdateInput) {
+// Column updates for everything but `status`, which has to go through the state machine.
+export function buildSettingsPatch(updates: Omit<SessionUpdateInput, 'status'>) {
   const patch: JsonRecord = {}
 
   if (updates.title !== undefined) patch.title = updates.title
   if (updates.summary !== undefined) patch.summary = updates.summary
-  if (updates.scheduled_at !== undefined) patch.scheduled_at = updates.scheduled_at
+  if (updates.scheduled_at !== undefined) {
+    // A new start time earns a new reminder.
+    patch.scheduled_at = updates.scheduled_at
+    patch.reminder_sent_at = null
+  }
   if (updates.duration_minutes !== undefined) patch.duration_minutes = updates.duration_minutes
-  if (updates.status !== undefined) patch.status = updates.status
   if (updates.allow_collab !== undefined) patch.allow_collab = updates.allow_collab
   if (updates.allow_chat !== undefined) patch.allow_chat = updates.allow_chat
   if (updates.allow_video !== undefined) patch.allow_video = updates.allow_video
+  if (updates.lobby_enabled !== undefined) patch.lobby_enabled = updates.lobby_enabled
   if (updates.metadata !== undefined) patch.metadata = sanitizeMetadata(updates.metadata)
 
+  return patch
+}
+
+export async function updateSessionSettings(mentorId: string, sessionId: string, updates: SessionUpdateInput) {
+  const patch = buildSettingsPatch(updates)
+
+  // Status changes go through the state machine; the update is conditional on the status we validated against so a
+  // concurrent transition cannot be overwritten.
+  let expectedStatus: SessionStatus | undefined
+  if (updates.status !== undefined) {
+    const current = await ensureSessionExistsWithOwner(sessionId)
+    if (current.status !== updates.status) {
+      assertStatusTransition(current.status, updates.status)
+      expectedStatus = current.status
+      Object.assign(patch, { status: updates.status }, statusTimestamps(updates.status))
+    }
+  }
+
   if (Object.keys(patch).length === 0) {
     throw new HttpError(400, 'No updates were provided')
   }
 
+  let query = supabaseAdmin
+    .from('mentorship_sessions')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('created_by', mentorId)
+  if (expectedStatus) {
+    query = query.eq('status', expectedStatus)
+  }
+
+  const { data, error } = await query.select(SESSION_SELECT).maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to update session', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(404, 'Session not found or you do not have permission to update it')
+  }
+
+  invalidateSessionAccess(sessionId)
+
+  // Same shape as `updateFollowingOccurrences`. Asking for the status a session already has changes nothing.
+  return { sessions: [data], statusChangedIds: expectedStatus ? [data.id] : [] }
+}
+
+const updateInviteCode = async (mentorId: string, sessionId: string, patch: JsonRecord) => {
   const { data, error } = await supabaseAdmin
     .from('mentorship_sessions')
     .update(patch)
     .eq('id', sessionId)
     .eq('created_by', mentorId)
-    .select(SESSION_SELECT)
+    .select(INVITE_SELECT)
     .maybeSingle()
 
   if (error) {
-    throw new HttpError(500, 'Unable to update session', formatPostgrestError(error))
+    throw new HttpError(500, 'Unable to update invite code', formatPostgrestError(error))
   }
 
   if (!data) {
@@ -301,17 +648,112 @@ export async function updateSessionSettings(mentorId: string, sessionId: string,
   return data
 }
 
-export async function kickParticipant(mentorId: string, sessionId: string, targetUserId: string) {
+// Replaces the code; the old one stops working immediately. Limits start over from `limits` (unset means none).
+export async function rotateInviteCode(mentorId: string, sessionId: string, limits: InviteCodeLimits = {}) {
+  const [inviteCode] = await generateInviteCodes(1)
+
+  return updateInviteCode(mentorId, sessionId, {
+    invite_code: inviteCode,
+    invite_expires_at: limits.expires_at ?? null,
+    invite_max_uses: limits.max_uses ?? null,
+    invite_use_count: 0,
+    invite_revoked_at: null,
+  })
+}
+
+export async function updateInviteCodeLimits(mentorId: string, sessionId: string, limits: InviteCodeLimits) {
+  const patch: JsonRecord = {}
+
+  if (limits.expires_at !== undefined) patch.invite_expires_at = limits.expires_at
+  if (limits.max_uses !== undefined) patch.invite_max_uses = limits.max_uses
+
+  if (Object.keys(patch).length === 0) {
+    throw new HttpError(400, 'No invite code changes provided')
+  }
+
+  return updateInviteCode(mentorId, sessionId, patch)
+}
+
+// The code keeps resolving to the session so joiners learn it was revoked rather than mistyped.
+export async function revokeInviteCode(mentorId: string, sessionId: string) {
+  return updateInviteCode(mentorId, sessionId, { invite_revoked_at: new Date().toISOString() })
+}
+
+// Moves a session along the state machine on behalf of the system (auto-start, auto-complete). Resolves to null when
+// the session is no longer in `from`, e.g. because a mentor changed it first.
+export async function transitionSessionStatus(sessionId: string, from: SessionStatus, to: SessionStatus) {
+  assertStatusTransition(from, to)
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .update({ status: to, ...statusTimestamps(to, now), updated_at: now })
+    .eq('id', sessionId)
+    .eq('status', from)
+    .select(SESSION_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to update session status', formatPostgrestError(error))
+  }
+
+  if (data) {
+    invalidateSessionAccess(sessionId)
+  }
+
+  return data
+}
+
+// The owner moderates everyone else; co-hosts moderate everyone except the owner and each other.
+const assertCanModerate = async (actorId: string, sessionId: string, targetUserId: string) => {
   const session = await ensureSessionExistsWithOwner(sessionId)
 
-  if (session.created_by !== mentorId) {
-    throw new HttpError(403, 'Only the session creator can remove participants')
+  if (targetUserId === actorId) {
+    throw new HttpError(400, 'You cannot do that to yourself')
+  }
+
+  if (targetUserId === session.created_by) {
+    throw new HttpError(403, 'The session owner cannot be moderated')
+  }
+
+  if (session.created_by === actorId) return session
+
+  const actor = await ensureSessionParticipant(actorId, sessionId)
+  if (!isModeratorRole(actor.role)) {
+    throw new HttpError(403, 'Only mentors of this session can do that')
+  }
+
+  const { data: target, error } = await supabaseAdmin
+    .from('session_participants')
+    .select('role')
+    .eq('session_id', sessionId)
+    .eq('user_id', targetUserId)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load participant', formatPostgrestError(error))
   }
 
-  if (targetUserId === mentorId) {
-    throw new HttpError(400, 'You cannot remove yourself from your own session')
+  if (isModeratorRole(target?.role)) {
+    throw new HttpError(403, 'Only the session owner can moderate co-hosts')
   }
 
+  return session
+}
+
+export async function ensureSessionOwner(userId: string, sessionId: string) {
+  const session = await ensureSessionExistsWithOwner(sessionId)
+
+  if (session.created_by !== userId) {
+    throw new HttpError(403, 'Only the session owner can do that')
+  }
+
+  return session
+}
+
+export async function kickParticipant(moderatorId: string, sessionId: string, targetUserId: string) {
+  await assertCanModerate(moderatorId, sessionId, targetUserId)
+
   const { data, error } = await supabaseAdmin
     .from('session_participants')
     .update({
@@ -333,25 +775,39 @@ export async function kickParticipant(mentorId: string, sessionId: string, targe
     throw new HttpError(404, 'Participant not found or already removed')
   }
 
+  invalidateSessionAccess(sessionId)
+
   return true
 }
 
-type PermissionChanges = {
+export type PermissionChanges = {
   can_edit?: boolean
   can_share_screen?: boolean
 }
 
+export type RevokedPermission = 'edit' | 'share_screen' | 'moderate'
+
+// What a permission or role change takes away; the affected user's live sockets are told straight away. A role change
+// only revokes moderation from someone who had it, so it needs the role it replaced.
+export const revokedPermissions = (
+  changes: PermissionChanges & { role?: ParticipantRole; previousRole?: ParticipantRole }
+) => {
+  const revoked: RevokedPermission[] = []
+  if (changes.can_edit === false) revoked.push('edit')
+  if (changes.can_share_screen === false) revoked.push('share_screen')
+  if (changes.role !== undefined && isModeratorRole(changes.previousRole) && !isModeratorRole(changes.role)) {
+    revoked.push('moderate')
+  }
+  return revoked
+}
+
 export async function updateParticipantPermissions(
-  mentorId: string,
+  moderatorId: string,
   sessionId: string,
   targetUserId: string,
   changes: PermissionChanges
 ) {
-  const session = await ensureSessionExistsWithOwner(sessionId)
-
-  if (session.created_by !== mentorId) {
-    throw new HttpError(403, 'Only the session creator can update participant permissions')
-  }
+  await assertCanModerate(moderatorId, sessionId, targetUserId)
 
   const patch: Record<string, boolean> = {}
   if (changes.can_edit !== undefined) patch.can_edit = changes.can_edit
@@ -377,5 +833,162 @@ export async function updateParticipantPermissions(
     throw new HttpError(404, 'Participant not found')
   }
 
+  invalidateSessionAccess(sessionId)
+
   return data
 }
+
+// Makes a participant a co-host (with full editor and screen-share access) or demotes one back to student. Only the
+// owner hands out moderation rights.
+export async function setParticipantRole(
+  ownerId: string,
+  sessionId: string,
+  targetUserId: string,
+  role: Exclude<ParticipantRole, 'mentor'>
+) {
+  await ensureSessionOwner(ownerId, sessionId)
+
+  if (targetUserId === ownerId) {
+    throw new HttpError(400, 'The session owner keeps the mentor role; transfer ownership instead')
+  }
+
+  const { data: current, error: currentError } = await supabaseAdmin
+    .from('session_participants')
+    .select('role')
+    .eq('session_id', sessionId)
+    .eq('user_id', targetUserId)
+    .is('kicked_at', null)
+    .eq('admission', 'admitted')
+    .maybeSingle()
+
+  if (currentError) {
+    throw new HttpError(500, 'Unable to load participant', formatPostgrestError(currentError))
+  }
+
+  if (!current) {
+    throw new HttpError(404, 'Participant not found')
+  }
+
+  // Demotion leaves `can_edit` and `can_share_screen` alone: students are admitted with both, so a demoted co-host is
+  // an ordinary student, and moderators can still revoke either one.
+  const patch = role === 'co-host' ? { role, can_edit: true, can_share_screen: true } : { role }
+
+  // Conditional on the role read above, so the caller is told what the change actually replaced.
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .update(patch)
+    .eq('session_id', sessionId)
+    .eq('user_id', targetUserId)
+    .eq('role', current.role)
+    .is('kicked_at', null)
+    .eq('admission', 'admitted')
+    .select('user_id,role,can_edit,can_share_screen')
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to update participant role', formatPostgrestError(error))
+  }
+
+  if (!data) {
+    throw new HttpError(409, 'The participant changed meanwhile; try again')
+  }
+
+  invalidateSessionAccess(sessionId)
+
+  return { participant: data, previousRole: current.role as ParticipantRole }
+}
+
+// Hands the session to another mentor on the roster. The previous owner stays on as a co-host.
+//
+// Three rows change: the target is promoted, `created_by` moves, then the old owner is demoted. A failed step undoes
+// the ones before it, so a failed transfer leaves the owner and the single `mentor` row as they were.
+export async function transferSessionOwnership(ownerId: string, sessionId: string, targetUserId: string) {
+  await ensureSessionOwner(ownerId, sessionId)
+
+  if (targetUserId === ownerId) {
+    throw new HttpError(400, 'You already own this session')
+  }
+
+  const [{ data: target, error: targetError }, { data: profile, error: profileError }] = await Promise.all([
+    supabaseAdmin
+      .from('session_participants')
+      .select('id,role,can_edit,can_share_screen,kicked_at,admission')
+      .eq('session_id', sessionId)
+      .eq('user_id', targetUserId)
+      .maybeSingle(),
+    supabaseAdmin.from('profiles').select('role').eq('id', targetUserId).maybeSingle(),
+  ])
+
+  const error = targetError ?? profileError
+  if (error) {
+    throw new HttpError(500, 'Unable to load participant', formatPostgrestError(error))
+  }
+
+  if (!target || target.kicked_at || target.admission !== 'admitted') {
+    throw new HttpError(404, 'Participant not found')
+  }
+
+  if (profile?.role !== 'mentor') {
+    throw new HttpError(400, 'Ownership can only be transferred to a mentor')
+  }
+
+  const setRole = (userId: string, patch: Record<string, unknown>) =>
+    supabaseAdmin.from('session_participants').update(patch).eq('session_id', sessionId).eq('user_id', userId)
+
+  const undo = async (step: string, write: PromiseLike<{ error: PostgrestError | null }>) => {
+    const { error: undoError } = await write
+    if (undoError) {
+      logger.error('Failed to undo ownership transfer step', { sessionId, step, ...formatPostgrestError(undoError) })
+    }
+  }
+
+  const restoreTarget = () =>
+    undo(
+      'promote',
+      setRole(targetUserId, { role: target.role, can_edit: target.can_edit, can_share_screen: target.can_share_screen })
+    )
+
+  const promote = { role: 'mentor', can_edit: true, can_share_screen: true }
+  const { error: promoteError } = await setRole(targetUserId, promote)
+
+  if (promoteError) {
+    throw new HttpError(500, 'Unable to update participant roles', formatPostgrestError(promoteError))
+  }
+
+  // Conditional on the current owner so two concurrent transfers cannot both succeed.
+  const { data: session, error: sessionError } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .update({ created_by: targetUserId })
+    .eq('id', sessionId)
+    .eq('created_by', ownerId)
+    .select(SESSION_SELECT)
+    .maybeSingle()
+
+  if (sessionError || !session) {
+    await restoreTarget()
+    invalidateSessionAccess(sessionId)
+    throw sessionError
+      ? new HttpError(500, 'Unable to transfer session', formatPostgrestError(sessionError))
+      : new HttpError(409, 'Session ownership changed in the meantime')
+  }
+
+  const { error: demoteError } = await setRole(ownerId, { role: 'co-host' })
+
+  if (demoteError) {
+    await undo(
+      'transfer',
+      supabaseAdmin
+        .from('mentorship_sessions')
+        .update({ created_by: ownerId })
+        .eq('id', sessionId)
+        .eq('created_by', targetUserId)
+    )
+    await restoreTarget()
+    invalidateSessionAccess(sessionId)
+    throw new HttpError(500, 'Unable to update participant roles', formatPostgrestError(demoteError))
+  }
+
+  invalidateSessionAccess(sessionId)
+
+  return session
+}
@@ -0,0 +1,145 @@
+import { env } from '../config/env'
+import { emitToUser } from '../lib/socket'
+import { supabaseAdmin } from '../lib/supabase'
+import type { JobContext, Scheduler } from '../lib/scheduler'
+import { HttpError } from '../utils/httpError'
+import { listPresence } from './presence'
+import { formatPostgrestError, transitionSessionStatus } from './session'
+import { onSessionStatusChanged } from './sessionLifecycle'
+import type { MentorshipSession, SessionStatus } from '../types'
+
+type JobSession = Pick<MentorshipSession, 'id' | 'title' | 'status' | 'scheduled_at' | 'duration_minutes' | 'started_at'>
+
+const JOB_SESSION_SELECT = 'id,title,status,scheduled_at,duration_minutes,started_at'
+
+const minutes = (count: number) => count * 60 * 1000
+
+// Live sessions seen with nobody connected, and since when (per process; a restart just restarts the countdown).
+const emptySince = new Map<string, number>()
+
+async function loadSessions(status: SessionStatus, filter?: { column: string; before: Date }) {
+  let query = supabaseAdmin.from('mentorship_sessions').select(JOB_SESSION_SELECT).eq('status', status)
+  if (filter) {
+    query = query.lt(filter.column, filter.before.toISOString())
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load sessions', formatPostgrestError(error))
+  }
+
+  return (data ?? []) as JobSession[]
+}
+
+// Transitions are conditional on the current status, so repeating them after a restart or a race is a no-op.
+async function transitionAll(sessions: JobSession[], from: SessionStatus, to: SessionStatus) {
+  for (const session of sessions) {
+    const updated = await transitionSessionStatus(session.id, from, to)
+    if (updated) {
+      await onSessionStatusChanged(updated)
+    }
+  }
+}
+
+async function loadActiveParticipantIds(sessionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('session_participants')
+    .select('user_id')
+    .eq('session_id', sessionId)
+    .is('kicked_at', null)
+    .eq('admission', 'admitted')
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load session participants', formatPostgrestError(error))
+  }
+
+  return (data ?? []).map((participant) => participant.user_id as string)
+}
+
+// Claims due sessions by stamping `reminder_sent_at` in the same update that selects them, so each reminder goes out
+// at most once even across restarts or overlapping runs. Rescheduling a session clears the stamp.
+export async function sendSessionReminders({ now }: JobContext) {
+  const until = new Date(now.getTime() + minutes(env.sessions.reminderLeadMinutes))
+
+  const { data, error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .update({ reminder_sent_at: now.toISOString() })
+    .eq('status', 'scheduled')
+    .is('reminder_sent_at', null)
+    .gt('scheduled_at', now.toISOString())
+    .lte('scheduled_at', until.toISOString())
+    .select('id,title,scheduled_at')
+
+  if (error) {
+    throw new HttpError(500, 'Unable to claim session reminders', formatPostgrestError(error))
+  }
+
+  for (const session of (data ?? []) as Pick<JobSession, 'id' | 'title' | 'scheduled_at'>[]) {
+    const startsInMinutes = Math.max(0, Math.round((new Date(session.scheduled_at!).getTime() - now.getTime()) / 60000))
+    const userIds = await loadActiveParticipantIds(session.id)
+
+    userIds.forEach((userId) =>
+      emitToUser(userId, 'session:reminder', {
+        sessionId: session.id,
+        title: session.title,
+        scheduled_at: session.scheduled_at,
+        starts_in_minutes: startsInMinutes,
+      })
+    )
+  }
+}
+
+export async function markMissedSessions({ now }: JobContext) {
+  const before = new Date(now.getTime() - minutes(env.sessions.missedAfterMinutes))
+  await transitionAll(await loadSessions('scheduled', { column: 'scheduled_at', before }), 'scheduled', 'missed')
+}
+
+export async function completeOverdueSessions({ now }: JobContext) {
+  const grace = minutes(env.sessions.autoCompleteGraceMinutes)
+  const overdue = (await loadSessions('live')).filter(
+    (session) =>
+      session.duration_minutes &&
+      session.started_at &&
+      new Date(session.started_at).getTime() + minutes(session.duration_minutes) + grace <= now.getTime()
+  )
+
+  await transitionAll(overdue, 'live', 'completed')
+}
+
+export async function closeAbandonedSessions({ now }: JobContext) {
+  const live = await loadSessions('live')
+  const liveIds = new Set(live.map((session) => session.id))
+  for (const sessionId of emptySince.keys()) {
+    if (!liveIds.has(sessionId)) emptySince.delete(sessionId)
+  }
+
+  const abandoned = live.filter((session) => {
+    if (listPresence(session.id).length > 0) {
+      emptySince.delete(session.id)
+      return false
+    }
+
+    const since = emptySince.get(session.id) ?? now.getTime()
+    emptySince.set(session.id, since)
+    return now.getTime() - since >= minutes(env.sessions.abandonedAfterMinutes)
+  })
+
+  await transitionAll(abandoned, 'live', 'completed')
+  abandoned.forEach((session) => emptySince.delete(session.id))
+}
+
+// Optional housekeeping, switched off together with `SCHEDULER_ENABLED`.
+export function registerSessionJobs(scheduler: Scheduler) {
+  const intervalMs = env.scheduler.intervalMs
+
+  scheduler.register({ name: 'session-reminders', intervalMs, run: sendSessionReminders })
+  scheduler.register({ name: 'missed-sessions', intervalMs, run: markMissedSessions })
+  scheduler.register({ name: 'abandoned-sessions', intervalMs, run: closeAbandonedSessions })
+}
+
+// Auto-completing overdue sessions is part of the status lifecycle rather than housekeeping, so it gets a scheduler of
+// its own that runs whatever `SCHEDULER_ENABLED` says.
+export function registerLifecycleJobs(scheduler: Scheduler) {
+  scheduler.register({ name: 'overdue-sessions', intervalMs: env.scheduler.intervalMs, run: completeOverdueSessions })
+}
@@ -0,0 +1,40 @@
+import { emitToSession, removeFromSession } from '../lib/socket'
+import { persistDocument } from './collab'
+import { isModeratorRole, transitionSessionStatus } from './session'
+import type { MentorshipSession } from '../types'
+
+export type LifecycleSession = Pick<
+  MentorshipSession,
+  'id' | 'status' | 'duration_minutes' | 'started_at' | 'ended_at' | 'cancelled_at'
+>
+
+// Side effects of every transition, whoever triggered it: tell the room and flush the editor once the session is over.
+export async function onSessionStatusChanged(session: LifecycleSession) {
+  emitToSession(session.id, 'session:status', {
+    sessionId: session.id,
+    status: session.status,
+    started_at: session.started_at,
+    ended_at: session.ended_at,
+    cancelled_at: session.cancelled_at,
+  })
+
+  // A cancelled session is closed to everyone at once; completed ones stay open so people can wrap up.
+  if (session.status === 'cancelled') {
+    removeFromSession(session.id, 'cancelled')
+  }
+
+  if (session.status !== 'scheduled' && session.status !== 'live') {
+    await persistDocument(session.id)
+  }
+}
+
+// A scheduled session goes live the moment one of its mentors or co-hosts joins the room.
+export async function startSessionOnMentorJoin(sessionId: string, role: string | undefined) {
+  if (!isModeratorRole(role)) return null
+
+  const started = await transitionSessionStatus(sessionId, 'scheduled', 'live')
+  if (started) {
+    await onSessionStatusChanged(started)
+  }
+  return started
+}
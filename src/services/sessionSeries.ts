@@ -0,0 +1,373 @@
+import { supabaseAdmin } from '../lib/supabase'
+import { logger } from '../logger'
+import { HttpError } from '../utils/httpError'
+import { addCalendarDays, calendarDaysBetween, fromWallClock, toWallClock } from '../utils/timezone'
+import {
+  assertStatusTransition,
+  buildParticipantRows,
+  buildSessionRow,
+  buildSettingsPatch,
+  formatPostgrestError,
+  generateInviteCodes,
+  invalidateSessionAccess,
+  SESSION_SELECT,
+  statusTimestamps,
+  type SessionCreateInput,
+  type SessionUpdateInput,
+} from './session'
+import type { MentorshipSession, SeriesFrequency, SessionSeries } from '../types'
+
+export type RecurrenceRule = {
+  frequency: SeriesFrequency
+  starts_at: string
+  until?: string | null
+  count?: number | null
+  // IANA name; occurrences keep the local time of day of `starts_at` in this zone.
+  timezone?: string
+}
+
+export type SeriesCreateInput = Omit<SessionCreateInput, 'scheduled_at' | 'invite_expires_at'> & {
+  recurrence: RecurrenceRule
+}
+
+export const MAX_SERIES_OCCURRENCES = 52
+
+const SERIES_SELECT = 'id,created_by,frequency,timezone,starts_at,until,occurrence_count,participant_ids,created_at'
+
+const OCCURRENCE_SELECT = 'id,title,status,scheduled_at,duration_minutes,invite_code,series_index,created_by'
+
+type AnchorOccurrence = Pick<
+  MentorshipSession,
+  'id' | 'created_by' | 'status' | 'series_id' | 'series_index' | 'scheduled_at'
+> & { series: Pick<SessionSeries, 'timezone'> | null }
+
+const FREQUENCY_DAYS: Record<SeriesFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+}
+
+// Occurrence start times for a rule, stepped in calendar days in the rule's timezone, so a weekly 18:00 slot stays at
+// 18:00 local time across daylight-saving changes.
+export function expandRecurrence(rule: RecurrenceRule) {
+  const timeZone = rule.timezone ?? 'UTC'
+  const start = toWallClock(new Date(rule.starts_at), timeZone)
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity
+  const limit = rule.count ?? Infinity
+  const occurrences: string[] = []
+
+  for (let index = 0; occurrences.length < limit; index += 1) {
+    const at = fromWallClock(addCalendarDays(start, index * FREQUENCY_DAYS[rule.frequency]), timeZone)
+    if (at.getTime() > until) break
+
+    if (occurrences.length === MAX_SERIES_OCCURRENCES) {
+      throw new HttpError(400, `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`)
+    }
+    occurrences.push(at.toISOString())
+  }
+
+  if (occurrences.length === 0) {
+    throw new HttpError(400, 'The recurrence rule does not produce any occurrences')
+  }
+
+  return occurrences
+}
+
+// Undoes a series whose creation failed part-way. The caller reports the original failure, so cleanup errors are
+// logged rather than thrown over it.
+const discardSeries = async (seriesId: string) => {
+  const { error: sessionError } = await supabaseAdmin.from('mentorship_sessions').delete().eq('series_id', seriesId)
+  const { error: seriesError } = sessionError
+    ? { error: null }
+    : await supabaseAdmin.from('session_series').delete().eq('id', seriesId)
+
+  if (sessionError || seriesError) {
+    logger.error('Failed to discard partially created series', {
+      seriesId,
+      ...formatPostgrestError(sessionError ?? seriesError),
+    })
+  }
+}
+
+const loadOccurrences = async (seriesId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .select(OCCURRENCE_SELECT)
+    .eq('series_id', seriesId)
+    .order('series_index', { ascending: true })
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load series occurrences', formatPostgrestError(error))
+  }
+
+  return (data ?? []) as Array<
+    Pick<
+      MentorshipSession,
+      'id' | 'title' | 'status' | 'scheduled_at' | 'duration_minutes' | 'series_index' | 'created_by'
+    > & {
+      invite_code: string
+    }
+  >
+}
+
+// Creates the series and materializes every occurrence up front, each with the same participants, so occurrences
+// behave exactly like one-off sessions everywhere else.
+export async function createSessionSeries(mentorId: string, input: SeriesCreateInput) {
+  const { recurrence, ...template } = input
+  const occurrences = expandRecurrence(recurrence)
+  const inviteCodes = await generateInviteCodes(occurrences.length)
+
+  const { data: series, error: seriesError } = await supabaseAdmin
+    .from('session_series')
+    .insert({
+      created_by: mentorId,
+      frequency: recurrence.frequency,
+      timezone: recurrence.timezone ?? 'UTC',
+      starts_at: occurrences[0],
+      until: recurrence.until ?? null,
+      occurrence_count: recurrence.count ?? null,
+      participant_ids: template.participantUserIds ?? [],
+    })
+    .select(SERIES_SELECT)
+    .single()
+
+  if (seriesError || !series) {
+    throw new HttpError(500, 'Unable to create session series', formatPostgrestError(seriesError))
+  }
+
+  const { data: sessions, error: sessionError } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .insert(
+      occurrences.map((scheduledAt, index) => ({
+        ...buildSessionRow(mentorId, { ...template, scheduled_at: scheduledAt }, inviteCodes[index]),
+        series_id: series.id,
+        series_index: index,
+      }))
+    )
+    .select('id')
+
+  if (sessionError || !sessions) {
+    await discardSeries(series.id)
+    throw new HttpError(500, 'Unable to create series occurrences', formatPostgrestError(sessionError))
+  }
+
+  const participantRows = sessions.flatMap((session) =>
+    buildParticipantRows(session.id, mentorId, template.participantUserIds)
+  )
+
+  const { error: participantError } = await supabaseAdmin.from('session_participants').insert(participantRows)
+
+  if (participantError) {
+    await discardSeries(series.id)
+    throw new HttpError(500, 'Unable to attach participants', formatPostgrestError(participantError))
+  }
+
+  return { ...(series as SessionSeries), occurrences: await loadOccurrences(series.id) }
+}
+
+// Visible to its owner and to anyone still on the roster of one of its occurrences.
+export async function getSessionSeries(userId: string, seriesId: string) {
+  const { data: series, error } = await supabaseAdmin
+    .from('session_series')
+    .select(SERIES_SELECT)
+    .eq('id', seriesId)
+    .maybeSingle()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load session series', formatPostgrestError(error))
+  }
+
+  if (!series) {
+    throw new HttpError(404, 'Session series not found')
+  }
+
+  const occurrences = await loadOccurrences(seriesId)
+
+  if (series.created_by !== userId) {
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from('session_participants')
+      .select('id')
+      .eq('user_id', userId)
+      .is('kicked_at', null)
+      .eq('admission', 'admitted')
+      .in('session_id', occurrences.map((occurrence) => occurrence.id))
+      .limit(1)
+
+    if (membershipError) {
+      throw new HttpError(500, 'Unable to verify membership', formatPostgrestError(membershipError))
+    }
+
+    if (!membership?.length) {
+      throw new HttpError(404, 'Session series not found')
+    }
+  }
+
+  return { ...(series as SessionSeries), occurrences }
+}
+
+type OccurrenceMove = {
+  id: string
+  from: string | null
+  to: string
+}
+
+// The anchor takes the new start time; later occurrences move by the same number of calendar days and to the same
+// local time of day in the series' timezone.
+const planMoves = (
+  anchor: { id: string; scheduled_at: string | null },
+  occurrences: Array<{ id: string; scheduled_at: string | null }>,
+  scheduledAt: string,
+  timeZone: string
+): OccurrenceMove[] => {
+  const target = toWallClock(new Date(scheduledAt), timeZone)
+  const dayShift = anchor.scheduled_at
+    ? calendarDaysBetween(toWallClock(new Date(anchor.scheduled_at), timeZone), target)
+    : 0
+
+  return occurrences
+    .map((occurrence) => {
+      if (occurrence.id === anchor.id || !occurrence.scheduled_at) {
+        return { id: occurrence.id, from: occurrence.scheduled_at, to: scheduledAt }
+      }
+
+      const day = addCalendarDays(toWallClock(new Date(occurrence.scheduled_at), timeZone), dayShift)
+      const to = fromWallClock({ ...target, year: day.year, month: day.month, day: day.day }, timeZone)
+      return { id: occurrence.id, from: occurrence.scheduled_at, to: to.toISOString() }
+    })
+    .filter((move) => move.from === null || new Date(move.from).getTime() !== new Date(move.to).getTime())
+}
+
+const setStartTime = async (mentorId: string, sessionId: string, scheduledAt: string | null) => {
+  const { error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .update({ scheduled_at: scheduledAt, reminder_sent_at: null, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('created_by', mentorId)
+
+  if (error) {
+    throw new HttpError(500, 'Unable to move series occurrence', formatPostgrestError(error))
+  }
+}
+
+const revertMoves = async (mentorId: string, moves: OccurrenceMove[]) => {
+  for (const move of moves) {
+    await setStartTime(mentorId, move.id, move.from).catch((err) =>
+      logger.error('Failed to restore series occurrence start time', {
+        sessionId: move.id,
+        message: (err as Error).message,
+      })
+    )
+  }
+}
+
+// Every occurrence gets its own start time, so moves are written row by row; when one fails, the rows already moved
+// are put back before the error is reported.
+const applyMoves = async (mentorId: string, moves: OccurrenceMove[]) => {
+  const applied: OccurrenceMove[] = []
+  try {
+    for (const move of moves) {
+      await setStartTime(mentorId, move.id, move.to)
+      applied.push(move)
+    }
+  } catch (err) {
+    await revertMoves(mentorId, applied)
+    throw err
+  }
+}
+
+// Applies an edit to this occurrence and every later one that is still scheduled; occurrences that already ran or
+// were cancelled on their own are left alone. Everything but the start time is written in one conditional update, so
+// the affected occurrences change together or not at all.
+export async function updateFollowingOccurrences(mentorId: string, sessionId: string, updates: SessionUpdateInput) {
+  const { data: anchor, error } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .select('id,created_by,status,series_id,series_index,scheduled_at,series:session_series(timezone)')
+    .eq('id', sessionId)
+    .maybeSingle()
+    .overrideTypes<AnchorOccurrence, { merge: false }>()
+
+  if (error) {
+    throw new HttpError(500, 'Unable to load session', formatPostgrestError(error))
+  }
+
+  if (!anchor || anchor.created_by !== mentorId) {
+    throw new HttpError(404, 'Session not found or you do not have permission to update it')
+  }
+
+  if (!anchor.series_id) {
+    throw new HttpError(400, 'This session is not part of a series')
+  }
+
+  const { status, scheduled_at: scheduledAt, ...settings } = updates
+
+  if (status !== undefined && status !== 'cancelled') {
+    throw new HttpError(400, 'Only cancellation can be applied to the rest of a series')
+  }
+
+  if (scheduledAt === null) {
+    throw new HttpError(400, 'Series occurrences must keep a start time')
+  }
+
+  const anchorStatus = anchor.status
+  const patch = buildSettingsPatch(settings)
+  if (status !== undefined && status !== anchorStatus) {
+    assertStatusTransition(anchorStatus, status)
+    Object.assign(patch, { status }, statusTimestamps(status))
+  }
+
+  const following = (await loadOccurrences(anchor.series_id)).filter(
+    (occurrence) =>
+      occurrence.id === anchor.id ||
+      ((occurrence.series_index ?? 0) > (anchor.series_index ?? 0) && occurrence.status === 'scheduled')
+  )
+  const ids = following.map((occurrence) => occurrence.id)
+
+  // Occurrences can be handed to another mentor one at a time; editing "this and following" then would change only
+  // some of them.
+  if (following.some((occurrence) => occurrence.created_by !== mentorId)) {
+    throw new HttpError(409, 'Some following occurrences belong to another mentor; edit them one at a time')
+  }
+
+  const moves = scheduledAt ? planMoves(anchor, following, scheduledAt, anchor.series?.timezone ?? 'UTC') : []
+
+  if (Object.keys(patch).length === 0 && moves.length === 0) {
+    throw new HttpError(400, 'No updates were provided')
+  }
+
+  await applyMoves(mentorId, moves)
+
+  if (Object.keys(patch).length > 0) {
+    // Conditional on the statuses seen above, so an occurrence that went live or ended meanwhile is not overwritten.
+    const { error: updateError } = await supabaseAdmin
+      .from('mentorship_sessions')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .in('id', ids)
+      .eq('created_by', mentorId)
+      .in('status', [...new Set(['scheduled', anchorStatus])])
+
+    if (updateError) {
+      await revertMoves(mentorId, moves)
+      throw new HttpError(500, 'Unable to update series occurrences', formatPostgrestError(updateError))
+    }
+  }
+
+  ids.forEach((id) => invalidateSessionAccess(id))
+
+  const { data: updated, error: reloadError } = await supabaseAdmin
+    .from('mentorship_sessions')
+    .select(SESSION_SELECT)
+    .in('id', ids)
+    .order('series_index', { ascending: true })
+    .overrideTypes<MentorshipSession[], { merge: false }>()
+
+  if (reloadError) {
+    throw new HttpError(500, 'Unable to load updated occurrences', formatPostgrestError(reloadError))
+  }
+
+  const sessions = updated ?? []
+  // The conditional update skips occurrences that changed status meanwhile, so only those now in the new status moved.
+  const statusChangedIds =
+    'status' in patch ? sessions.filter((session) => session.status === patch.status).map((session) => session.id) : []
+
+  return { sessions, statusChangedIds }
+}
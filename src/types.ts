@@ -1,5 +1,8 @@
 export type UserRole = 'mentor' | 'student'
 
+// `mentor` is the session owner (`created_by`); `co-host` is anyone the owner has delegated moderation to.
+export type ParticipantRole = 'mentor' | 'co-host' | 'student'
+
 export type Profile = {
   id: string
   name: string | null
@@ -10,23 +13,67 @@ export type Profile = {
   created_at: string
 }
 
+export type SessionStatus = 'scheduled' | 'live' | 'completed' | 'cancelled' | 'missed'
+
 export type MentorshipSession = {
   id: string
   title: string
-  status: 'scheduled' | 'live' | 'completed' | 'cancelled'
+  status: SessionStatus
   scheduled_at: string | null
   duration_minutes: number | null
+  started_at: string | null
+  ended_at: string | null
+  cancelled_at: string | null
+  reminder_sent_at: string | null
   created_at: string
+  // Bumped by every edit and status change; calendar feeds derive `SEQUENCE` and `LAST-MODIFIED` from it.
+  updated_at: string | null
   created_by: string
   summary: string | null
+  // Server-generated, e.g. `K7QM-3XPA`. Joins are refused once the code is revoked, expired or out of uses.
+  invite_code: string
+  invite_expires_at: string | null
+  invite_max_uses: number | null
+  invite_use_count: number
+  invite_revoked_at: string | null
+  allow_collab: boolean
+  allow_chat: boolean
+  allow_video: boolean
+  // Students who join wait in a lobby until a mentor admits them.
+  lobby_enabled: boolean
+  // Set on occurrences materialized from a recurring series; `series_index` is the 0-based position in it.
+  series_id: string | null
+  series_index: number | null
+}
+
+export type SeriesFrequency = 'daily' | 'weekly' | 'biweekly'
+
+export type SessionSeries = {
+  id: string
+  created_by: string
+  frequency: SeriesFrequency
+  // IANA timezone the recurrence is expanded in.
+  timezone: string
+  starts_at: string
+  // Exactly one of `until` and `occurrence_count` bounds the series.
+  until: string | null
+  occurrence_count: number | null
+  participant_ids: string[]
+  created_at: string
 }
 
+export type ParticipantAdmission = 'admitted' | 'pending' | 'denied'
+
 export type SessionParticipant = {
   id: string
   session_id: string
   user_id: string
-  role: UserRole
+  role: ParticipantRole
   joined_at: string
+  kicked_at: string | null
+  admission: ParticipantAdmission
+  can_edit: boolean
+  can_share_screen: boolean
 }
 
 export type SessionMessage = {
@@ -34,6 +81,29 @@ export type SessionMessage = {
   session_id: string
   author_id: string
   content: string
+  // Thread root this message replies to; replies to replies are attached to the same root.
+  parent_id: string | null
+  created_at: string
+  edited_at: string | null
+  // Soft delete: the row stays so threads and pagination keep working, but its content is wiped.
+  deleted_at: string | null
+  deleted_by: string | null
+}
+
+export type SessionMessageMention = {
+  id: string
+  message_id: string
+  session_id: string
+  user_id: string
+  created_at: string
+}
+
+export type SessionMessageReaction = {
+  id: string
+  message_id: string
+  session_id: string
+  user_id: string
+  emoji: string
   created_at: string
 }
 
@@ -46,6 +116,61 @@ export type SessionCodeSnapshot = {
   created_at: string
 }
 
+export type SessionCodeRun = {
+  id: string
+  session_id: string
+  author_id: string
+  language: string
+  code_hash: string
+  status: string
+  output: string
+  error: string | null
+  exit_code: number | null
+  execution_time_ms: number
+  created_at: string
+}
+
+export type TestComparisonMode = 'exact' | 'trimmed' | 'regex'
+
+export type SessionTestCase = {
+  id: string
+  session_id: string
+  created_by: string
+  name: string | null
+  input: string
+  expected_output: string
+  comparison: TestComparisonMode
+  time_limit_ms: number
+  hidden: boolean
+  position: number
+  created_at: string
+}
+
+export type TestVerdict = 'pass' | 'wrong_answer' | 'runtime_error' | 'compile_error' | 'timeout'
+
+export type TestCaseResult = {
+  test_case_id: string
+  verdict: TestVerdict
+  execution_time: number
+  hidden: boolean
+  // Only populated for visible test cases.
+  output?: string
+  error?: string | null
+}
+
+export type SessionSubmission = {
+  id: string
+  session_id: string
+  author_id: string
+  language: string
+  code: string
+  score: number
+  passed_count: number
+  total_count: number
+  results: TestCaseResult[]
+  created_at: string
+}
+
 export type AuthedUser = {
   id: string
   email?: string
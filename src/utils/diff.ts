@@ -0,0 +1,162 @@
+export type DiffEdit = {
+  type: 'equal' | 'insert' | 'delete'
+  line: string
+}
+
+export type UnifiedDiff = {
+  patch: string
+  additions: number
+  deletions: number
+}
+
+const CONTEXT_LINES = 3
+// Past this many edits the Myers trace gets large; anything that different is reported as a full rewrite.
+const MAX_EDIT_DISTANCE = 4000
+
+// Lines keep their terminator so a missing final newline shows up as a change.
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+
+const rewrite = (a: string[], b: string[]): DiffEdit[] => [
+  ...a.map((line) => ({ type: 'delete' as const, line })),
+  ...b.map((line) => ({ type: 'insert' as const, line })),
+]
+
+// Myers' O(ND) shortest edit script. `trace[d]` holds the furthest x for each diagonal k in [-d, d] before step d.
+function myers(a: string[], b: string[]): DiffEdit[] {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace)
+      }
+    }
+  }
+
+  return rewrite(a, b)
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffEdit[] {
+  const edits: DiffEdit[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    const at = (k: number) => v[k + d]
+    const k = x - y
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : at(prevK)
+    const prevY = d === 0 ? 0 : prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', line: a[x - 1] })
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: 'insert', line: b[y - 1] })
+      else edits.push({ type: 'delete', line: a[x - 1] })
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return edits.reverse()
+}
+
+export function diffLines(a: string[], b: string[]): DiffEdit[] {
+  // Common prefixes and suffixes are cheap to strip and keep the edit distance search small.
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  return [
+    ...a.slice(0, start).map((line) => ({ type: 'equal' as const, line })),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map((line) => ({ type: 'equal' as const, line })),
+  ]
+}
+
+const formatRange = (start: number, length: number) => {
+  // Empty ranges point at the line before them, as GNU diff does.
+  const first = length === 0 ? start : start + 1
+  return length === 1 ? `${first}` : `${first},${length}`
+}
+
+const formatLine = (prefix: string, line: string) =>
+  line.endsWith('\n') ? `${prefix}${line.slice(0, -1)}` : `${prefix}${line}\n\\ No newline at end of file`
+
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string): UnifiedDiff {
+  const edits = diffLines(splitLines(before), splitLines(after))
+  const changed = edits.map((edit, index) => (edit.type === 'equal' ? -1 : index)).filter((index) => index >= 0)
+
+  const additions = edits.filter((edit) => edit.type === 'insert').length
+  const deletions = edits.filter((edit) => edit.type === 'delete').length
+
+  if (changed.length === 0) {
+    return { patch: '', additions, deletions }
+  }
+
+  // Group changes whose context windows touch into hunks of [first, last] edit indexes.
+  const hunks: Array<[number, number]> = []
+  changed.forEach((index) => {
+    const first = Math.max(0, index - CONTEXT_LINES)
+    const last = Math.min(edits.length - 1, index + CONTEXT_LINES)
+    const previous = hunks[hunks.length - 1]
+    if (previous && first <= previous[1] + 1) previous[1] = last
+    else hunks.push([first, last])
+  })
+
+  // Line counters before each edit, so every hunk header can be computed directly.
+  const oldBefore: number[] = []
+  const newBefore: number[] = []
+  let oldLine = 0
+  let newLine = 0
+  edits.forEach((edit) => {
+    oldBefore.push(oldLine)
+    newBefore.push(newLine)
+    if (edit.type !== 'insert') oldLine++
+    if (edit.type !== 'delete') newLine++
+  })
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`]
+  hunks.forEach(([first, last]) => {
+    const hunk = edits.slice(first, last + 1)
+    const oldLength = hunk.filter((edit) => edit.type !== 'insert').length
+    const newLength = hunk.filter((edit) => edit.type !== 'delete').length
+
+    lines.push(`@@ -${formatRange(oldBefore[first], oldLength)} +${formatRange(newBefore[first], newLength)} @@`)
+    hunk.forEach((edit) => {
+      lines.push(formatLine(edit.type === 'equal' ? ' ' : edit.type === 'insert' ? '+' : '-', edit.line))
+    })
+  })
+
+  return { patch: `${lines.join('\n')}\n`, additions, deletions }
+}
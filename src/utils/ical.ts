@@ -0,0 +1,79 @@
+// Minimal RFC 5545 writer: just enough for a read-only feed of timed events.
+
+export type CalendarEvent = {
+  uid: string
+  start: Date
+  durationMinutes?: number | null
+  summary: string
+  description?: string | null
+  url?: string | null
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  // Must grow whenever the event changes, or clients keep showing the old time.
+  sequence?: number
+  lastModified?: Date | null
+}
+
+export type CalendarOptions = {
+  productId: string
+  name: string
+  now?: Date
+}
+
+const MAX_LINE_OCTETS = 75
+
+export const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// UTC form, e.g. 20260105T170000Z.
+export const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// Content lines longer than 75 octets continue on the next line after a CRLF and a single space. Splits happen
+// between characters so multi-byte UTF-8 sequences stay intact.
+export function foldLine(line: string) {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8')
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions) {
+  const stamp = formatDateTime(options.now ?? new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ]
+
+  events.forEach((event) => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, `DTSTART:${formatDateTime(event.start)}`)
+    if (event.durationMinutes) lines.push(`DURATION:PT${event.durationMinutes}M`)
+    lines.push(`SUMMARY:${escapeText(event.summary)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    lines.push(`STATUS:${event.status}`)
+    if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`)
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+    lines.push('END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,46 @@
+import { randomInt } from 'crypto'
+import { HttpError } from './httpError'
+
+// No 0/O, 1/I/L: codes get read aloud and copied off screens.
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const GROUP_LENGTH = 4
+const GROUPS = 2
+
+export type InviteCodeState = {
+  invite_expires_at: string | null
+  invite_max_uses: number | null
+  invite_use_count: number
+  invite_revoked_at: string | null
+}
+
+// e.g. `K7QM-3XPA`; 31^8 possible codes.
+export function createInviteCode() {
+  const groups = Array.from({ length: GROUPS }, () =>
+    Array.from({ length: GROUP_LENGTH }, () => ALPHABET[randomInt(ALPHABET.length)]).join('')
+  )
+  return groups.join('-')
+}
+
+// Accepts what people actually type: any case, spaces, with or without the dash.
+export function normalizeInviteCode(input: string) {
+  const compact = input.replace(/[\s-]/g, '').toUpperCase()
+  if (compact.length !== GROUP_LENGTH * GROUPS || [...compact].some((char) => !ALPHABET.includes(char))) {
+    return input.trim()
+  }
+  return `${compact.slice(0, GROUP_LENGTH)}-${compact.slice(GROUP_LENGTH)}`
+}
+
+// Each way a code can stop working gets its own error so clients can tell people what to do next.
+export function assertInviteCodeUsable(state: InviteCodeState, now = new Date()) {
+  if (state.invite_revoked_at) {
+    throw new HttpError(410, 'This invite code has been revoked', { reason: 'revoked' })
+  }
+
+  if (state.invite_expires_at && new Date(state.invite_expires_at).getTime() <= now.getTime()) {
+    throw new HttpError(410, 'This invite code has expired', { reason: 'expired' })
+  }
+
+  if (state.invite_max_uses !== null && state.invite_use_count >= state.invite_max_uses) {
+    throw new HttpError(410, 'This invite code has reached its maximum number of uses', { reason: 'exhausted' })
+  }
+}
@@ -0,0 +1,77 @@
+import { Worker } from 'worker_threads'
+import { logger } from '../logger'
+
+// Per match. A pattern that backtracks catastrophically is cut off here and simply does not match.
+const MATCH_TIMEOUT_MS = 250
+
+// Mentor-written patterns run against student-controlled output, so they are evaluated on a worker thread: a slow
+// pattern can only stall that thread, and `vm`'s timeout interrupts the regex engine mid-backtrack.
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads')
+const vm = require('vm')
+const context = vm.createContext({})
+const script = new vm.Script('new RegExp(pattern).test(input)')
+
+parentPort.on('message', ({ id, pattern, input, timeoutMs }) => {
+  context.pattern = pattern
+  context.input = input
+  try {
+    parentPort.postMessage({ id, matched: script.runInContext(context, { timeout: timeoutMs }) === true })
+  } catch (err) {
+    parentPort.postMessage({ id, matched: false, timedOut: err && err.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' })
+  }
+})
+`
+
+type MatchReply = { id: number; matched: boolean; timedOut?: boolean }
+
+type PendingMatch = { resolve: (matched: boolean) => void; pattern: string }
+
+let worker: Worker | null = null
+let nextId = 0
+const pending = new Map<number, PendingMatch>()
+
+const failAll = () => {
+  pending.forEach((match) => match.resolve(false))
+  pending.clear()
+  worker = null
+}
+
+const getWorker = () => {
+  if (worker) return worker
+
+  const created = new Worker(WORKER_SOURCE, { eval: true })
+  // Only keeps the process alive while a match is in flight (see `matchesWholeRegex`).
+  created.unref()
+  created.on('message', ({ id, matched, timedOut }: MatchReply) => {
+    const match = pending.get(id)
+    if (!match) return
+    pending.delete(id)
+    if (pending.size === 0) created.unref()
+    if (timedOut) {
+      logger.warn('Regex comparison timed out', { pattern: match.pattern, timeoutMs: MATCH_TIMEOUT_MS })
+    }
+    match.resolve(matched)
+  })
+  created.on('error', (err) => {
+    logger.error('Regex worker failed', { message: err.message })
+    failAll()
+  })
+  created.on('exit', () => {
+    if (worker === created) failAll()
+  })
+
+  worker = created
+  return created
+}
+
+// Whether `pattern` matches the whole of `input`: `expected: "1"` accepts exactly `1`, not any output containing one.
+export function matchesWholeRegex(pattern: string, input: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const id = nextId++
+    pending.set(id, { resolve, pattern })
+    const target = getWorker()
+    target.ref()
+    target.postMessage({ id, pattern: `^(?:${pattern})$`, input, timeoutMs: MATCH_TIMEOUT_MS })
+  })
+}
@@ -0,0 +1,133 @@
+import { HttpError } from './httpError'
+
+// A text operation walks the whole document: a positive integer retains that many characters, a string inserts it and
+// a negative integer deletes that many characters (the same wire format as ot.js, so existing clients can speak it).
+export type TextOperation = Array<number | string>
+
+const isRetain = (component: number | string): component is number => typeof component === 'number' && component > 0
+const isDelete = (component: number | string): component is number => typeof component === 'number' && component < 0
+const isInsert = (component: number | string): component is string => typeof component === 'string'
+
+// Merges adjacent components of the same kind and drops no-ops so transformed operations stay compact.
+const push = (op: TextOperation, component: number | string) => {
+  if (component === 0 || component === '') return
+  const last = op[op.length - 1]
+
+  if (isInsert(component) && last !== undefined && isInsert(last)) {
+    op[op.length - 1] = last + component
+  } else if (isRetain(component) && last !== undefined && isRetain(last)) {
+    op[op.length - 1] = last + component
+  } else if (isDelete(component) && last !== undefined && isDelete(last)) {
+    op[op.length - 1] = last + component
+  } else if (isInsert(component) && last !== undefined && isDelete(last)) {
+    // Keep inserts before deletes so equivalent operations have one canonical form.
+    const beforeLast = op[op.length - 2]
+    if (beforeLast !== undefined && isInsert(beforeLast)) {
+      op[op.length - 2] = beforeLast + component
+    } else {
+      op.splice(op.length - 1, 0, component)
+    }
+  } else {
+    op.push(component)
+  }
+}
+
+export function parseOperation(value: unknown): TextOperation {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'Operation must be a non-empty array')
+  }
+
+  const op: TextOperation = []
+  value.forEach((component) => {
+    if (typeof component === 'string' || (Number.isInteger(component) && component !== 0)) {
+      push(op, component)
+    } else {
+      throw new HttpError(400, 'Operation components must be non-zero integers or strings')
+    }
+  })
+
+  return op
+}
+
+export const baseLength = (op: TextOperation) =>
+  op.reduce<number>((length, component) => (isInsert(component) ? length : length + Math.abs(component)), 0)
+
+export function applyOperation(doc: string, op: TextOperation) {
+  if (baseLength(op) !== doc.length) {
+    throw new HttpError(409, 'Operation does not match the document length')
+  }
+
+  let index = 0
+  const parts: string[] = []
+
+  op.forEach((component) => {
+    if (isRetain(component)) {
+      parts.push(doc.slice(index, index + component))
+      index += component
+    } else if (isInsert(component)) {
+      parts.push(component)
+    } else {
+      index -= component
+    }
+  })
+
+  return parts.join('')
+}
+
+// Given concurrent operations a and b on the same document, returns [a', b'] such that
+// apply(apply(doc, a), b') === apply(apply(doc, b), a').
+export function transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new HttpError(409, 'Concurrent operations must start from the same document')
+  }
+
+  const aPrime: TextOperation = []
+  const bPrime: TextOperation = []
+  const opsA = [...a]
+  const opsB = [...b]
+  let i = 0
+  let j = 0
+  let componentA = opsA[i++]
+  let componentB = opsB[j++]
+
+  while (componentA !== undefined || componentB !== undefined) {
+    // Inserts go first and a's insert wins a tie. Server and clients both pass the client's operation as a (as ot.js
+    // does), which keeps every replica ordering simultaneous inserts the same way.
+    if (componentA !== undefined && isInsert(componentA)) {
+      push(aPrime, componentA)
+      push(bPrime, componentA.length)
+      componentA = opsA[i++]
+      continue
+    }
+
+    if (componentB !== undefined && isInsert(componentB)) {
+      push(aPrime, componentB.length)
+      push(bPrime, componentB)
+      componentB = opsB[j++]
+      continue
+    }
+
+    if (componentA === undefined || componentB === undefined) {
+      throw new HttpError(409, 'Operations could not be transformed')
+    }
+
+    const lengthA = Math.abs(componentA as number)
+    const lengthB = Math.abs(componentB as number)
+    const length = Math.min(lengthA, lengthB)
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      push(aPrime, length)
+      push(bPrime, length)
+    } else if (isDelete(componentA) && isRetain(componentB)) {
+      push(aPrime, -length)
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      push(bPrime, -length)
+    }
+    // Both deleting the same range: nothing left for either side to do.
+
+    componentA = lengthA > length ? (isRetain(componentA) ? lengthA - length : -(lengthA - length)) : opsA[i++]
+    componentB = lengthB > length ? (isRetain(componentB) ? lengthB - length : -(lengthB - length)) : opsB[j++]
+  }
+
+  return [aPrime, bPrime]
+}
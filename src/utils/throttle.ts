@@ -0,0 +1,52 @@
+type ThrottleState = {
+  pending: (() => void) | null
+  timer: NodeJS.Timeout | null
+}
+
+// Runs at most one call per key every `intervalMs`. Calls in between replace each other and the latest one runs when
+// the interval ends, so the final cursor position always gets through.
+export function createKeyedThrottle(intervalMs: number) {
+  const states = new Map<string, ThrottleState>()
+
+  const flush = (key: string) => {
+    const state = states.get(key)
+    if (!state) return
+
+    state.timer = null
+    const pending = state.pending
+    state.pending = null
+
+    if (pending) {
+      pending()
+      state.timer = setTimeout(() => flush(key), intervalMs)
+      state.timer.unref()
+    } else {
+      states.delete(key)
+    }
+  }
+
+  const run = (key: string, fn: () => void) => {
+    const state = states.get(key)
+
+    if (!state) {
+      fn()
+      const timer = setTimeout(() => flush(key), intervalMs)
+      timer.unref()
+      states.set(key, { pending: null, timer })
+      return
+    }
+
+    state.pending = fn
+  }
+
+  // Drops pending calls, e.g. when the socket that produced them disconnects.
+  const cancel = (keyPrefix: string) => {
+    for (const [key, state] of states) {
+      if (!key.startsWith(keyPrefix)) continue
+      if (state.timer) clearTimeout(state.timer)
+      states.delete(key)
+    }
+  }
+
+  return { run, cancel }
+}
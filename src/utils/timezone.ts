@@ -0,0 +1,89 @@
+// Calendar arithmetic in an IANA timezone using only `Intl`, so recurring times keep their local wall-clock time
+// across daylight-saving changes.
+
+export type WallClock = {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function toWallClock(instant: Date, timeZone: string): WallClock {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  )
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: instant.getUTCMilliseconds(),
+  }
+}
+
+const asUtc = (wall: WallClock) =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond)
+
+const sameWallClock = (instant: number, wall: WallClock, timeZone: string) =>
+  asUtc(toWallClock(new Date(instant), timeZone)) === asUtc(wall)
+
+// The instant a wall-clock time happens in `timeZone`. An ambiguous time (clocks going back) resolves to the earlier
+// instant; a time skipped when clocks go forward resolves to the later side of the gap.
+export function fromWallClock(wall: WallClock, timeZone: string): Date {
+  const naive = asUtc(wall)
+  const offsetAt = (instant: number) => asUtc(toWallClock(new Date(instant), timeZone)) - instant
+
+  const first = naive - offsetAt(naive)
+  const second = naive - offsetAt(first)
+  const match = [second, first].find((instant) => sameWallClock(instant, wall, timeZone))
+
+  return new Date(match ?? Math.max(first, second))
+}
+
+export function addCalendarDays(wall: WallClock, days: number): WallClock {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days))
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+// Whole calendar days from `from` to `to`, ignoring the time of day.
+export function calendarDaysBetween(from: WallClock, to: WallClock) {
+  const diffMs = Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)
+  return Math.round(diffMs / (24 * 60 * 60 * 1000))
+}